@@ -1,102 +1,161 @@
-import React, { useMemo, useState } from 'react';
-import { Upload, FileText, AlertCircle, CheckCircle2, FlaskConical, Database } from 'lucide-react';
-import { DataSourceType, ExtractedRecord } from './types';
-import { parseEuropePMC } from './services/parsers/europepmcParser';
-import { parsePubMedTxt } from './services/parsers/pubmedTxtParser';
-import { parseMdpiTxt } from './services/parsers/mdpiTxtParser';
-import { DataTable } from './components/DataTable';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Upload, FileText, AlertCircle, AlertTriangle, CheckCircle2, ClipboardPaste, FlaskConical, Database, X, XCircle } from 'lucide-react';
+import { DataSourceType, ExtractedRecord, FileParseProgress } from './types';
+import { getAllAcceptTypes, getParser, listParsers } from './services/parsers/registry';
+import { ParseBatch, isParseCancelled, parseFilesInWorker } from './services/parserClient';
+import { FileReport, buildParseReport } from './services/parseReport';
+import { detectFileSource } from './services/fileParser';
+import { collectDroppedFiles, createPastedFile, partitionByAcceptTypes } from './services/fileCollection';
+import { ARCHIVE_EXTENSIONS, isArchiveName } from './services/archiveReader';
+import { DataTable, TableEditing } from './components/DataTable';
 import { SourceSelector } from './components/SourceSelector';
+import { ReviewQueue } from './components/ReviewQueue';
+import { SessionHistory } from './components/SessionHistory';
+import { ParseReport } from './components/ParseReport';
+import { FileQueue, StagedFile, formatBytes } from './components/FileQueue';
+import { PasteTextPanel } from './components/PasteTextPanel';
+import { uniqueByEmail } from './services/exportService';
+import { mergeArticles } from './services/articleMerge';
+import { resolveAuthors } from './services/authorResolution';
+import { ReviewDecision, applyReviewDecision, applyStoredDecisions, saveReviewDecision } from './services/reviewDecisions';
+import { RecordEdit, applyEdit, createManualRecord, deleteRecords, invertEdit, updateRecordsField } from './services/recordEdits';
+import {
+  SessionSummary,
+  clearAllLocalData,
+  createSession,
+  deleteSession,
+  listSessions,
+  loadSession,
+  mergeSessions,
+  nameForFiles,
+  renameSession,
+  saveSession
+} from './services/sessionStore';
 
-const decodeUtf16Be = (bytes: Uint8Array) => {
-  const swapped = new Uint8Array(bytes.length);
-  for (let i = 0; i < bytes.length; i += 2) {
-    swapped[i] = bytes[i + 1] ?? 0;
-    swapped[i + 1] = bytes[i] ?? 0;
-  }
-  return new TextDecoder('utf-16le').decode(swapped);
-};
-
-const readFileText = async (file: File) => {
-  const buffer = await file.arrayBuffer();
-  const bytes = new Uint8Array(buffer);
+// Older edits fall off the undo stack beyond this.
+const MAX_UNDO_STEPS = 100;
+// Rejected file names listed before the rest are summarized as "and N more".
+const MAX_LISTED_REJECTIONS = 8;
+// Edits are written to the open session once they pause for this long.
+const SESSION_SAVE_DELAY_MS = 500;
 
-  if (bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
-    return new TextDecoder('utf-8').decode(bytes.subarray(3));
-  }
-
-  if (bytes.length >= 2 && bytes[0] === 0xff && bytes[1] === 0xfe) {
-    return new TextDecoder('utf-16le').decode(bytes.subarray(2));
-  }
-
-  if (bytes.length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff) {
-    return decodeUtf16Be(bytes.subarray(2));
-  }
-
-  try {
-    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
-  } catch {
-    try {
-      return new TextDecoder('windows-1252').decode(bytes);
-    } catch {
-      return new TextDecoder('utf-8').decode(bytes);
+const describeProgress = (progress: FileParseProgress) => {
+  switch (progress.status) {
+    case 'pending':
+      return 'Waiting';
+    case 'reading': {
+      const read = `Reading ${formatBytes(progress.bytesRead)} of ${formatBytes(progress.totalBytes)}`;
+      return progress.recordsFound > 0 ? `${read} \u00b7 ${progress.recordsFound} records` : read;
     }
+    case 'parsing':
+      return 'Extracting records';
+    case 'done':
+      return `${progress.recordsFound} record${progress.recordsFound === 1 ? '' : 's'} found`;
+    case 'failed':
+      return 'Failed';
   }
 };
 
 const App: React.FC = () => {
-  const [selectedSource, setSelectedSource] = useState<DataSourceType>(DataSourceType.EUROPE_PMC);
+  const [selectedSource, setSelectedSource] = useState<DataSourceType | null>(null);
+  const [detectedSources, setDetectedSources] = useState<DataSourceType[]>([]);
+  // Formats the last batch was actually parsed as, after per-file choices.
+  const [batchSources, setBatchSources] = useState<DataSourceType[]>([]);
+  const [stagedFiles, setStagedFiles] = useState<StagedFile[]>([]);
+  const [rejectedFiles, setRejectedFiles] = useState<string[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [showPaste, setShowPaste] = useState(false);
+  const pastedCount = useRef(0);
   const [isParsing, setIsParsing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [data, setData] = useState<ExtractedRecord[]>([]);
   const [fileLabel, setFileLabel] = useState<string | null>(null);
+  const [fileProgress, setFileProgress] = useState<FileParseProgress[]>([]);
+  const [parseReport, setParseReport] = useState<FileReport[]>([]);
+  const activeBatch = useRef<ParseBatch | null>(null);
+  const [undoStack, setUndoStack] = useState<RecordEdit[]>([]);
+  const [redoStack, setRedoStack] = useState<RecordEdit[]>([]);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [activeSession, setActiveSession] = useState<SessionSummary | null>(null);
+  // The records last written to the open session, so opening or saving one does not write it again.
+  const savedData = useRef<ExtractedRecord[] | null>(null);
 
-  const uniqueEmailData = useMemo(() => {
-    const seen = new Set<string>();
-    const result: ExtractedRecord[] = [];
-    for (const row of data) {
-      const key = row.email.toLowerCase();
-      if (seen.has(key)) continue;
-      seen.add(key);
-      result.push(row);
-    }
-    return result;
-  }, [data]);
+  // Records still waiting for review stay out of the table and exports.
+  const reviewQueue = useMemo(() => data.filter(record => record.review), [data]);
+  const acceptedData = useMemo(() => data.filter(record => !record.review), [data]);
+  // Built on the article-level merge so the same article exported by two sources counts once.
+  const mergedData = useMemo(() => mergeArticles(acceptedData), [acceptedData]);
+  const uniqueEmailData = useMemo(() => uniqueByEmail(mergedData), [mergedData]);
+  const authorProfiles = useMemo(() => resolveAuthors(mergedData), [mergedData]);
+
+  // Local storage failures are logged rather than shown; the table keeps working without them.
+  const refreshSessions = () => {
+    listSessions().then(setSessions).catch(err => console.error('Failed to list saved sessions', err));
+  };
+
+  useEffect(refreshSessions, []);
+
+  useEffect(() => {
+    if (!activeSession || data === savedData.current) return;
+    const timer = window.setTimeout(() => {
+      savedData.current = data;
+      saveSession({ ...activeSession, updatedAt: Date.now(), records: data })
+        .then(refreshSessions)
+        .catch(err => console.error('Failed to save session', err));
+    }, SESSION_SAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [data, activeSession]);
 
   const sourceUiConfig = (() => {
-    switch (selectedSource) {
-      case DataSourceType.EUROPE_PMC:
-        return {
-          uploadLabel: 'XML files only (Europe PMC format)',
-          parsingLabel: 'Parsing XML Structure...',
-          parsingDetail: 'Extracting author metadata',
-          acceptType: '.xml'
-        };
-      case DataSourceType.PUBMED:
-        return {
-          uploadLabel: 'TXT files only (PubMed format)',
-          parsingLabel: 'Parsing PubMed TXT...',
-          parsingDetail: 'Extracting author and email metadata',
-          acceptType: '.txt'
-        };
-      case DataSourceType.MDPI:
-        return {
-          uploadLabel: 'TXT files only (MDPI tab-delimited format)',
-          parsingLabel: 'Parsing MDPI TXT...',
-          parsingDetail: 'Extracting title, author, and email metadata',
-          acceptType: '.txt'
-        };
-      default:
-        return {
-          uploadLabel: 'Unsupported source',
-          parsingLabel: 'Parsing...',
-          parsingDetail: 'Extracting metadata',
-          acceptType: '.txt,.xml'
-        };
+    if (selectedSource === null) {
+      return {
+        uploadLabel: 'Any supported export (format is detected per file)',
+        parsingLabel: 'Detecting Formats...',
+        parsingDetail: 'Extracting author and email metadata',
+        acceptTypes: [...getAllAcceptTypes(), ...ARCHIVE_EXTENSIONS]
+      };
     }
+
+    const { ui } = getParser(selectedSource);
+    return {
+      uploadLabel: ui.uploadLabel,
+      parsingLabel: ui.parsingLabel,
+      parsingDetail: ui.parsingDetail,
+      acceptTypes: [...ui.acceptTypes, ...ARCHIVE_EXTENSIONS]
+    };
   })();
 
-  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const fileList = event.currentTarget.files;
+  // Files are staged first so each one's source can be checked or changed before parsing.
+  // The file picker's accept filter can be switched off, so picked files are checked too.
+  const stageFiles = (files: File[], checkTypes = true) => {
+    const { accepted, rejected } = checkTypes
+      ? partitionByAcceptTypes(files, sourceUiConfig.acceptTypes)
+      : { accepted: files, rejected: [] };
+    setRejectedFiles(rejected.map(file => file.name));
+    const added: StagedFile[] = accepted.map(file => ({
+      id: crypto.randomUUID(),
+      file,
+      source: selectedSource,
+      detectedSource: null,
+      // An archive's entries are detected one by one when it is parsed.
+      isDetecting: !isArchiveName(file.name)
+    }));
+
+    setStagedFiles(current => [...current, ...added]);
+    for (const staged of added.filter(entry => entry.isDetecting)) {
+      detectFileSource(staged.file)
+        .catch(() => null)
+        .then(detectedSource => {
+          setStagedFiles(current => current.map(entry =>
+            entry.id === staged.id ? { ...entry, detectedSource, isDetecting: false } : entry
+          ));
+        });
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const input = event.currentTarget;
+    const fileList = input.files;
     if (!fileList?.length) return;
     const files: File[] = [];
     for (let index = 0; index < fileList.length; index += 1) {
@@ -105,58 +164,306 @@ const App: React.FC = () => {
         files.push(file);
       }
     }
+    stageFiles(files);
+
+    // Reset input so the same file can be added again after removing it.
+    input.value = '';
+  };
 
+  const handleDrop = (event: React.DragEvent<HTMLLabelElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (isParsing) return;
+    collectDroppedFiles(event.dataTransfer)
+      .then(files => stageFiles(files))
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to read the dropped files.'));
+  };
+
+  const handleDragLeave = (event: React.DragEvent<HTMLLabelElement>) => {
+    // dragleave also fires when moving onto a child of the drop zone.
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) setIsDragging(false);
+  };
+
+  // Pasted text skips the extension check: it is plain text whatever source is selected.
+  const handlePasteText = (text: string) => {
+    pastedCount.current += 1;
+    stageFiles([createPastedFile(text, pastedCount.current)], false);
+    setShowPaste(false);
+  };
+
+  // A file dropped next to the upload area would otherwise replace the page with its contents.
+  useEffect(() => {
+    const preventFileDrop = (event: DragEvent) => {
+      if (event.dataTransfer?.types.includes('Files')) event.preventDefault();
+    };
+    window.addEventListener('dragover', preventFileDrop);
+    window.addEventListener('drop', preventFileDrop);
+    return () => {
+      window.removeEventListener('dragover', preventFileDrop);
+      window.removeEventListener('drop', preventFileDrop);
+    };
+  }, []);
+
+  // The source cards set every staged file at once; the per-file dropdowns override them afterwards.
+  const handleSourceChange = (source: DataSourceType | null) => {
+    setSelectedSource(source);
+    setStagedFiles(current => current.map(entry => ({ ...entry, source })));
+  };
+
+  const handleStagedSourceChange = (id: string, source: DataSourceType | null) => {
+    setStagedFiles(current => current.map(entry => (entry.id === id ? { ...entry, source } : entry)));
+  };
+
+  const handleStartParsing = async () => {
+    const staged = stagedFiles;
+    if (staged.length === 0) return;
+    const files = staged.map(entry => entry.file);
+    const sources = staged.map(entry => entry.source);
+
+    setStagedFiles([]);
     setFileLabel(files.length === 1 ? files[0].name : `${files.length} files selected`);
     setError(null);
     setIsParsing(true);
     setData([]);
+    setUndoStack([]);
+    setRedoStack([]);
+    setDetectedSources([]);
+    setBatchSources([]);
+    setActiveSession(null);
+    setParseReport([]);
+    setFileProgress(files.map(file => ({
+      fileName: file.name,
+      status: 'pending',
+      bytesRead: 0,
+      totalBytes: file.size,
+      recordsFound: 0
+    })));
 
-    try {
-      const allRecords: ExtractedRecord[] = [];
+    // Archive entries that are not exports join the rejected files once the batch is done.
+    const skippedEntries: string[] = [];
+    const batch = parseFilesInWorker(
+      files,
+      sources,
+      (fileIndex, progress) => {
+        setFileProgress(current => current.map((entry, index) => (index === fileIndex ? progress : entry)));
+      },
+      fileName => skippedEntries.push(fileName)
+    );
+    activeBatch.current = batch;
 
-      for (const file of files) {
-        const text = await readFileText(file);
-
-        let result;
-        switch (selectedSource) {
-          case DataSourceType.EUROPE_PMC:
-            result = await parseEuropePMC(text);
-            break;
-          case DataSourceType.PUBMED:
-            result = await parsePubMedTxt(text);
-            break;
-          case DataSourceType.MDPI:
-            result = await parseMdpiTxt(text);
-            break;
-          default:
-            throw new Error("Parser not implemented yet.");
-        }
+    try {
+      const parsedFiles = await batch.result;
+      if (skippedEntries.length > 0) setRejectedFiles(current => [...current, ...skippedEntries]);
+      const allRecords = parsedFiles.flatMap(file => file.records);
+      const detected: DataSourceType[] = [];
+      const resolved: DataSourceType[] = [];
+      parsedFiles.forEach(({ source, detectedSource }) => {
+        if (detectedSource && !detected.includes(detectedSource)) detected.push(detectedSource);
+        if (source && !resolved.includes(source)) resolved.push(source);
+      });
 
-        allRecords.push(...result.records);
-      }
+      setDetectedSources(detected);
+      setBatchSources(resolved);
+      const report = buildParseReport(parsedFiles);
+      setParseReport(report);
 
-      if (allRecords.length === 0) {
+      const failures = parsedFiles.filter(file => file.error);
+      if (allRecords.length === 0 && failures.length > 0 && failures.length === parsedFiles.length) {
+        setError(parsedFiles.length === 1
+          ? failures[0].error!
+          : "None of the selected files could be parsed. See the parse report for details."
+        );
+      } else if (allRecords.length === 0) {
         setError(files.length === 1
           ? "No authors with emails found in this file."
           : "No authors with emails found in the selected files."
         );
       } else {
-        setData(allRecords);
+        const records = applyStoredDecisions(allRecords);
+        const session = createSession(
+          nameForFiles(files),
+          files.map((file, index) => ({
+            name: file.name,
+            size: file.size,
+            detectedSource: parsedFiles.find(parsed => parsed.fileIndex === index)?.detectedSource ?? null,
+            assignedSource: sources[index]
+          })),
+          new Set(sources).size === 1 ? sources[0] : null,
+          records,
+          report
+        );
+        savedData.current = records;
+        setData(records);
+        setActiveSession(session);
+        saveSession(session)
+          .then(refreshSessions)
+          .catch(err => console.error('Failed to save session', err));
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to parse file.");
+      if (isParseCancelled(err)) {
+        setFileLabel(null);
+      } else {
+        setError(err instanceof Error ? err.message : "Failed to parse file.");
+      }
     } finally {
+      activeBatch.current = null;
       setIsParsing(false);
+      setFileProgress([]);
     }
-    
-    // Reset input
-    event.currentTarget.value = '';
+  };
+
+  const handleCancel = (event: React.MouseEvent) => {
+    // The button sits inside the upload <label>; don't let the click reopen the file picker.
+    event.preventDefault();
+    event.stopPropagation();
+    activeBatch.current?.cancel();
+  };
+
+  const handleReviewDecision = (record: ExtractedRecord, decision: ReviewDecision) => {
+    saveReviewDecision(record, decision);
+    setData(current => current.flatMap(entry => {
+      if (entry.id !== record.id) return [entry];
+      const decided = applyReviewDecision(entry, decision);
+      return decided ? [decided] : [];
+    }));
   };
 
+  const recordEdit = (edit: RecordEdit) => {
+    setData(current => applyEdit(current, edit));
+    setUndoStack(current => [...current.slice(-(MAX_UNDO_STEPS - 1)), edit]);
+    setRedoStack([]);
+  };
+
+  const handleUndo = useCallback(() => {
+    const edit = undoStack[undoStack.length - 1];
+    if (!edit) return;
+    setData(current => applyEdit(current, invertEdit(edit)));
+    setUndoStack(current => current.slice(0, -1));
+    setRedoStack(current => [...current, edit]);
+  }, [undoStack]);
+
+  const handleRedo = useCallback(() => {
+    const edit = redoStack[redoStack.length - 1];
+    if (!edit) return;
+    setData(current => applyEdit(current, edit));
+    setRedoStack(current => current.slice(0, -1));
+    setUndoStack(current => [...current, edit]);
+  }, [redoStack]);
+
+  // Rows of the Unique Emails view may be merged from several raw rows; an edit or delete
+  // applies to all of them, so no copy from another source is left showing the old row.
+  const rawRecords = (record: ExtractedRecord) => {
+    const ids = new Set(record.provenance?.map(entry => entry.id) ?? [record.id]);
+    const rows = data.filter(row => ids.has(row.id));
+    return rows.length > 0 ? rows : [record];
+  };
+
+  const editing: TableEditing = {
+    onUpdate: (record, field, value) => recordEdit(updateRecordsField(rawRecords(record), field, value)),
+    onDelete: record => recordEdit(deleteRecords(data, rawRecords(record))),
+    onAdd: fields => recordEdit({ type: 'add', record: createManualRecord(fields), index: 0 }),
+    onUndo: handleUndo,
+    onRedo: handleRedo,
+    canUndo: undoStack.length > 0,
+    canRedo: redoStack.length > 0
+  };
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y), except while typing in a field.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (!(event.ctrlKey || event.metaKey) || target?.closest('input, textarea, select')) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  // Clearing only closes the session; it stays in the history.
   const handleClear = () => {
     setData([]);
+    setUndoStack([]);
+    setRedoStack([]);
     setFileLabel(null);
     setError(null);
+    setDetectedSources([]);
+    setBatchSources([]);
+    setActiveSession(null);
+    setParseReport([]);
+  };
+
+  const handleOpenSession = async (id: string) => {
+    try {
+      const session = await loadSession(id);
+      if (!session) {
+        refreshSessions();
+        return;
+      }
+      const { records, ...summary } = session;
+      const detected: DataSourceType[] = [];
+      const resolved: DataSourceType[] = [];
+      for (const { detectedSource, assignedSource } of session.files) {
+        const source = assignedSource ?? session.source ?? detectedSource;
+        if (detectedSource && !detected.includes(detectedSource)) detected.push(detectedSource);
+        if (source && !resolved.includes(source)) resolved.push(source);
+      }
+      savedData.current = records;
+      setData(records);
+      setActiveSession(summary);
+      setUndoStack([]);
+      setRedoStack([]);
+      setFileLabel(session.files.length === 1 ? session.files[0].name : `${session.files.length} files selected`);
+      setDetectedSources(detected);
+      setBatchSources(resolved);
+      setParseReport(session.report ?? []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open the saved session.');
+    }
+  };
+
+  const handleRenameSession = (id: string, name: string) => {
+    if (activeSession?.id === id) setActiveSession({ ...activeSession, name });
+    renameSession(id, name)
+      .then(refreshSessions)
+      .catch(err => console.error('Failed to rename session', err));
+  };
+
+  const handleDeleteSession = (id: string) => {
+    if (!window.confirm('Delete this saved session? Its records cannot be recovered.')) return;
+    if (activeSession?.id === id) setActiveSession(null);
+    deleteSession(id)
+      .then(refreshSessions)
+      .catch(err => console.error('Failed to delete session', err));
+  };
+
+  const handleMergeSessions = async (ids: string[]) => {
+    const names = sessions.filter(session => ids.includes(session.id)).map(session => session.name);
+    try {
+      const merged = await mergeSessions(ids, `Merged: ${names.join(', ')}`);
+      refreshSessions();
+      await handleOpenSession(merged.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to merge sessions.');
+    }
+  };
+
+  const handleClearAllLocalData = async () => {
+    if (!window.confirm('Delete every saved session and review decision from this browser?')) return;
+    handleClear();
+    try {
+      await clearAllLocalData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to clear local data.');
+    }
+    refreshSessions();
   };
 
   return (
@@ -184,21 +491,35 @@ const App: React.FC = () => {
         <div className="mb-10 text-center max-w-2xl mx-auto">
           <h2 className="text-3xl font-bold text-slate-900 mb-4">Transform Exports to Contacts</h2>
           <p className="text-lg text-slate-600">
-            Upload your Europe PMC XML, PubMed TXT, or MDPI TXT exports to automatically extract article titles, author names, and verified email addresses.
+            Upload your {listParsers().map(parser => parser.name).join(', ')} exports to automatically extract article titles, author names, and verified email addresses.
           </p>
         </div>
 
         {/* Configuration & Upload Section */}
         <div className="max-w-4xl mx-auto mb-12">
-          <SourceSelector selectedSource={selectedSource} onChange={setSelectedSource} />
+          <SourceSelector
+            selectedSource={selectedSource}
+            detectedSources={detectedSources}
+            onChange={handleSourceChange}
+          />
 
           {/* Upload Area */}
           <div className="mt-6">
             <label 
               htmlFor="file-upload" 
+              onDragOver={(e) => {
+                e.preventDefault();
+                if (!isParsing) setIsDragging(true);
+              }}
+              onDragLeave={handleDragLeave}
+              onDrop={handleDrop}
               className={`
                 relative group flex flex-col items-center justify-center w-full h-64 rounded-2xl border-2 border-dashed transition-all cursor-pointer overflow-hidden
-                ${isParsing ? 'bg-indigo-50 border-indigo-300' : 'bg-white border-slate-300 hover:border-indigo-400 hover:bg-slate-50'}
+                ${isParsing
+                  ? 'bg-indigo-50 border-indigo-300'
+                  : isDragging
+                    ? 'bg-indigo-50 border-indigo-500'
+                    : 'bg-white border-slate-300 hover:border-indigo-400 hover:bg-slate-50'}
               `}
             >
               <div className="flex flex-col items-center justify-center pt-5 pb-6">
@@ -207,6 +528,24 @@ const App: React.FC = () => {
                       <div className="h-12 w-12 rounded-full border-4 border-indigo-200 border-t-indigo-600 animate-spin mb-4"></div>
                       <p className="text-lg font-medium text-indigo-700">{sourceUiConfig.parsingLabel}</p>
                       <p className="text-sm text-indigo-500 mt-2">{sourceUiConfig.parsingDetail}</p>
+                      {fileProgress.length > 0 && (
+                        <ul className="mt-4 w-80 max-h-24 overflow-y-auto space-y-1 text-xs text-indigo-700">
+                          {fileProgress.map((progress, index) => (
+                            <li key={`${progress.fileName}-${index}`} className="flex justify-between gap-3">
+                              <span className="truncate">{progress.fileName}</span>
+                              <span className="flex-shrink-0 text-indigo-500">{describeProgress(progress)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      <button
+                        type="button"
+                        onClick={handleCancel}
+                        className="mt-4 px-3 py-1.5 text-sm font-medium text-indigo-700 bg-white border border-indigo-200 rounded-lg hover:bg-indigo-100 transition-colors flex items-center gap-2"
+                      >
+                        <XCircle className="h-4 w-4" />
+                        Cancel
+                      </button>
                    </div>
                 ) : (
                   <>
@@ -214,9 +553,14 @@ const App: React.FC = () => {
                       <Upload className="h-10 w-10 text-indigo-600" />
                     </div>
                     <p className="mb-2 text-lg text-slate-700 font-medium">
-                      <span className="font-bold text-indigo-600">Click to upload</span> or drag and drop
+                      {isDragging ? (
+                        <span className="font-bold text-indigo-600">Drop files or folders to add them</span>
+                      ) : (
+                        <><span className="font-bold text-indigo-600">Click to upload</span> or drag and drop files and folders</>
+                      )}
                     </p>
                     <p className="text-sm text-slate-500">{sourceUiConfig.uploadLabel}</p>
+                    <p className="text-xs text-slate-400 mt-1">.zip, .tar.gz and .gz archives are unpacked and each file in them is parsed</p>
                   </>
                 )}
               </div>
@@ -225,14 +569,55 @@ const App: React.FC = () => {
                 name="file-upload" 
                 type="file" 
                 className="hidden" 
-                accept={sourceUiConfig.acceptType}
+                accept={sourceUiConfig.acceptTypes.join(',')}
                 multiple
                 onChange={handleFileChange}
                 disabled={isParsing}
               />
             </label>
+            {!isParsing && !showPaste && (
+              <button
+                onClick={() => setShowPaste(true)}
+                className="mt-3 mx-auto text-sm font-medium text-slate-500 hover:text-indigo-600 flex items-center gap-1.5"
+              >
+                <ClipboardPaste className="h-4 w-4" />
+                Or paste MEDLINE / abstract text
+              </button>
+            )}
           </div>
 
+          {showPaste && !isParsing && <PasteTextPanel onAdd={handlePasteText} onClose={() => setShowPaste(false)} />}
+
+          {rejectedFiles.length > 0 && (
+            <div className="mt-4 p-4 bg-amber-50 border border-amber-200 rounded-lg flex items-start gap-3">
+              <AlertTriangle className="h-5 w-5 text-amber-600 mt-0.5 flex-shrink-0" />
+              <div className="flex-grow min-w-0">
+                <h3 className="text-sm font-medium text-amber-800">
+                  {rejectedFiles.length} file{rejectedFiles.length === 1 ? ' was' : 's were'} not added
+                </h3>
+                <p className="text-sm text-amber-700 mt-1">
+                  {selectedSource ? getParser(selectedSource).name : 'The supported sources'} accept
+                  {' '}{sourceUiConfig.acceptTypes.join(', ')} files:{' '}
+                  {rejectedFiles.slice(0, MAX_LISTED_REJECTIONS).join(', ')}
+                  {rejectedFiles.length > MAX_LISTED_REJECTIONS ? ` and ${rejectedFiles.length - MAX_LISTED_REJECTIONS} more` : ''}
+                </p>
+              </div>
+              <button onClick={() => setRejectedFiles([])} className="p-1 text-amber-600 hover:bg-amber-100 rounded-md" title="Dismiss">
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          )}
+
+          {stagedFiles.length > 0 && !isParsing && (
+            <FileQueue
+              files={stagedFiles}
+              onSourceChange={handleStagedSourceChange}
+              onRemove={id => setStagedFiles(current => current.filter(entry => entry.id !== id))}
+              onClear={() => setStagedFiles([])}
+              onStart={handleStartParsing}
+            />
+          )}
+
           {/* Error Message */}
           {error && (
             <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3 animate-in fade-in slide-in-from-top-2">
@@ -243,10 +628,24 @@ const App: React.FC = () => {
               </div>
             </div>
           )}
+
+          {parseReport.length > 0 && !isParsing && <ParseReport report={parseReport} />}
+
+          {sessions.length > 0 && (
+            <SessionHistory
+              sessions={sessions}
+              activeSessionId={activeSession?.id ?? null}
+              onOpen={handleOpenSession}
+              onRename={handleRenameSession}
+              onDelete={handleDeleteSession}
+              onMerge={handleMergeSessions}
+              onClearAll={handleClearAllLocalData}
+            />
+          )}
         </div>
 
         {/* Results Section */}
-        {data.length > 0 && (
+        {(data.length > 0 || undoStack.length > 0) && (
            <div className="space-y-6">
               {/* Stats Bar */}
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -254,7 +653,7 @@ const App: React.FC = () => {
                     <div className="bg-green-100 p-2 rounded-lg"><CheckCircle2 className="h-5 w-5 text-green-700" /></div>
                     <div>
                       <p className="text-sm text-slate-500 font-medium">Records Extracted</p>
-                      <p className="text-2xl font-bold text-slate-900">{data.length}</p>
+                      <p className="text-2xl font-bold text-slate-900">{acceptedData.length}</p>
                     </div>
                  </div>
                  <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm flex items-center gap-3">
@@ -275,13 +674,25 @@ const App: React.FC = () => {
                     <div className="bg-indigo-100 p-2 rounded-lg"><Database className="h-5 w-5 text-indigo-700" /></div>
                     <div>
                       <p className="text-sm text-slate-500 font-medium">Schema</p>
-                      <p className="text-sm font-bold text-slate-900">{selectedSource.replace(/_/g, ' ')}</p>
+                      <p className="text-sm font-bold text-slate-900">
+                        {batchSources.map(source => getParser(source).name).join(', ')}
+                      </p>
                     </div>
                  </div>
               </div>
 
+              {reviewQueue.length > 0 && (
+                <ReviewQueue records={reviewQueue} onDecision={handleReviewDecision} />
+              )}
+
               {/* Data Table */}
-              <DataTable rawData={data} uniqueData={uniqueEmailData} onClear={handleClear} />
+              <DataTable
+                rawData={acceptedData}
+                uniqueData={uniqueEmailData}
+                people={authorProfiles}
+                editing={editing}
+                onClear={handleClear}
+              />
            </div>
         )}
       </main>
@@ -0,0 +1,188 @@
+#!/usr/bin/env node
+import { openAsBlob } from 'node:fs';
+import { stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { DataSourceType, ExtractedRecord } from '../types';
+import { buildCSV, uniqueByEmail } from '../services/exportService';
+import { mergeArticles } from '../services/articleMerge';
+import { ParseInput, listParseInputs, parseFile } from '../services/fileParser';
+import { findParserByKey, getSourceKey, listParsers } from '../services/parsers/registry';
+import { describeSkipped } from '../services/parsers/skipReasons';
+import { expandGlob, isGlobPattern } from './glob';
+
+// Scripts branch on these: "nothing found" is not a failure, but it is not a success either.
+const EXIT_CODES = {
+  success: 0,
+  error: 1,
+  usage: 2,
+  noRecords: 3
+} as const;
+
+class UsageError extends Error {}
+
+const sourceIds = () => listParsers().map(parser => getSourceKey(parser.id));
+
+const usage = () => `Usage: bioparser extract [options] <file|glob>...
+
+Extracts title, author and email rows from literature database exports.
+.zip, .tar.gz and .gz archives are unpacked and every export inside them is parsed.
+
+Options:
+  -s, --source <id>     Parse every file as this source instead of detecting it per file.
+                        One of: ${sourceIds().join(', ')}
+  -o, --output <path>   Write the CSV to a file instead of stdout.
+  -v, --view <view>     "raw" for every title/author/email row (default) or "unique" for one row per email,
+                        after merging articles that appear in more than one file or source.
+  -q, --quiet           Do not print per-file summaries to stderr.
+  -h, --help            Show this help.
+
+Exit codes: 0 records written, 1 a file could not be read or parsed, 2 invalid arguments,
+3 every file parsed but no records were found.`;
+
+const resolveSource = (value: string | undefined): DataSourceType | null => {
+  if (value === undefined || value.toLowerCase() === 'auto') return null;
+  const parser = findParserByKey(value);
+  if (!parser) {
+    throw new UsageError(`Unknown source "${value}". Expected one of: ${sourceIds().join(', ')}.`);
+  }
+  return parser.id;
+};
+
+const resolveInputs = async (patterns: string[]) => {
+  const files: string[] = [];
+  for (const pattern of patterns) {
+    if (isGlobPattern(pattern)) {
+      const matches = await expandGlob(pattern);
+      if (matches.length === 0) throw new UsageError(`No files match "${pattern}".`);
+      files.push(...matches);
+      continue;
+    }
+
+    const info = await stat(pattern).catch(() => null);
+    if (!info?.isFile()) throw new UsageError(`File not found: ${pattern}`);
+    files.push(pattern);
+  }
+  return Array.from(new Set(files));
+};
+
+const extract = async (argv: string[]) => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      source: { type: 'string', short: 's' },
+      output: { type: 'string', short: 'o' },
+      view: { type: 'string', short: 'v', default: 'raw' },
+      quiet: { type: 'boolean', short: 'q', default: false },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+
+  if (values.help) {
+    console.log(usage());
+    return EXIT_CODES.success;
+  }
+
+  if (values.view !== 'raw' && values.view !== 'unique') {
+    throw new UsageError(`Unknown view "${values.view}". Expected "raw" or "unique".`);
+  }
+  if (positionals.length === 0) {
+    throw new UsageError('No input files given.');
+  }
+
+  const source = resolveSource(values.source);
+  const files = await resolveInputs(positionals);
+  const log = (message: string) => {
+    if (!values.quiet) console.error(message);
+  };
+
+  const records: ExtractedRecord[] = [];
+  let failed = 0;
+
+  // Files are parsed one after another so memory stays bounded by the largest export.
+  // Archives are unpacked and each entry is parsed and reported on its own.
+  for (const filePath of files) {
+    const fileName = path.basename(filePath);
+    let inputs: ParseInput[];
+    try {
+      const blob = (await openAsBlob(filePath)) as unknown as Blob;
+      inputs = await listParseInputs(blob, fileName);
+    } catch (error) {
+      failed += 1;
+      console.error(`${filePath}: ${error instanceof Error ? error.message : 'Failed to read file.'}`);
+      continue;
+    }
+
+    for (const input of inputs) {
+      const label = `${filePath}${input.name.slice(fileName.length)}`;
+      // Figures and other files an archive carries alongside the exports are not errors.
+      if (input.rejection) {
+        log(`${label}: ${input.rejection}`);
+        continue;
+      }
+
+      // Held back until the input parses, so a file that fails partway adds no rows.
+      const batches: ExtractedRecord[][] = [];
+      let found = 0;
+      try {
+        const { detectedSource, totalProcessed, skipped } = await parseFile(await input.open(), input.name, source, {
+          onRecords: batch => {
+            found += batch.length;
+            batches.push(batch);
+          }
+        });
+        batches.forEach(batch => records.push(...batch));
+        const format = listParsers().find(parser => parser.id === (source ?? detectedSource))?.name ?? 'unknown format';
+        const skippedSummary = describeSkipped(skipped);
+        log(
+          `${label}: ${found} record${found === 1 ? '' : 's'} from ${totalProcessed} entries (${format})` +
+            (skippedSummary ? `; skipped ${skippedSummary}` : '')
+        );
+      } catch (error) {
+        failed += 1;
+        console.error(`${label}: ${error instanceof Error ? error.message : 'Failed to parse file.'}`);
+      }
+    }
+  }
+
+  const rows = values.view === 'unique' ? uniqueByEmail(mergeArticles(records)) : records;
+  const csv = buildCSV(rows);
+
+  if (values.output) {
+    await writeFile(values.output, csv, 'utf8');
+    log(`Wrote ${rows.length} row${rows.length === 1 ? '' : 's'} to ${values.output}`);
+  } else {
+    // The BOM is only there for Excel; it would end up as garbage in the first field of a pipe.
+    process.stdout.write(`${csv.replace(/^\uFEFF/, '')}\n`);
+  }
+
+  if (failed > 0) return EXIT_CODES.error;
+  return rows.length > 0 ? EXIT_CODES.success : EXIT_CODES.noRecords;
+};
+
+const main = async (argv: string[]) => {
+  const [command, ...rest] = argv;
+
+  try {
+    if (command === undefined || command === '-h' || command === '--help') {
+      console.log(usage());
+      return command === undefined ? EXIT_CODES.usage : EXIT_CODES.success;
+    }
+    if (command !== 'extract') {
+      throw new UsageError(`Unknown command "${command}".`);
+    }
+    return await extract(rest);
+  } catch (error) {
+    if (error instanceof UsageError || (error as NodeJS.ErrnoException)?.code?.startsWith('ERR_PARSE_ARGS')) {
+      console.error(`bioparser: ${(error as Error).message}\n\n${usage()}`);
+      return EXIT_CODES.usage;
+    }
+    console.error(`bioparser: ${error instanceof Error ? error.message : String(error)}`);
+    return EXIT_CODES.error;
+  }
+};
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
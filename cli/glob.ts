@@ -0,0 +1,87 @@
+import { readdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+
+// Node 20 has no fs.glob, and shells on Windows (or quoted arguments) leave patterns unexpanded.
+// Supports *, ?, [...] within a path segment and ** across directories.
+
+const GLOB_CHARS = /[*?[]/;
+
+export const isGlobPattern = (value: string) => GLOB_CHARS.test(value);
+
+const segmentToRegExp = (segment: string) => {
+  let source = '';
+  for (let index = 0; index < segment.length; index += 1) {
+    const char = segment[index];
+    if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = segment.indexOf(']', index + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        const body = segment.slice(index + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        source += `[${body}]`;
+        index = end;
+      }
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+const listDirectory = async (directory: string) => {
+  try {
+    return await readdir(directory, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+};
+
+const matchSegments = async (base: string, segments: string[], matches: string[]): Promise<void> => {
+  if (segments.length === 0) {
+    const info = await stat(base).catch(() => null);
+    if (info?.isFile()) matches.push(base);
+    return;
+  }
+
+  const [segment, ...rest] = segments;
+
+  if (segment === '**') {
+    // Zero directories, then every (non-hidden) subdirectory with ** still in play.
+    await matchSegments(base, rest, matches);
+    for (const entry of await listDirectory(base)) {
+      if (entry.isDirectory() && !entry.name.startsWith('.')) {
+        await matchSegments(path.join(base, entry.name), segments, matches);
+      }
+    }
+    return;
+  }
+
+  if (!isGlobPattern(segment)) {
+    await matchSegments(path.join(base, segment), rest, matches);
+    return;
+  }
+
+  const pattern = segmentToRegExp(segment);
+  const includeHidden = segment.startsWith('.');
+  for (const entry of await listDirectory(base)) {
+    if (!includeHidden && entry.name.startsWith('.')) continue;
+    if (pattern.test(entry.name)) {
+      await matchSegments(path.join(base, entry.name), rest, matches);
+    }
+  }
+};
+
+export const expandGlob = async (pattern: string) => {
+  const normalized = pattern.split(path.sep).join('/');
+  const root = path.isAbsolute(pattern) ? path.parse(pattern).root : '.';
+  const segments = normalized.split('/').filter(Boolean);
+  if (path.isAbsolute(pattern) && /^[A-Za-z]:$/.test(segments[0] ?? '')) segments.shift();
+
+  const matches: string[] = [];
+  await matchSegments(root, segments, matches);
+  return Array.from(new Set(matches)).sort();
+};
@@ -1,72 +1,264 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { ExtractedRecord } from '../types';
-import { Download, ChevronLeft, ChevronRight, Search } from 'lucide-react';
-import { downloadCSV } from '../services/exportService';
+import { Download, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Search, Columns, Plus, Redo2, Trash2, Undo2, Filter, ArrowUp, ArrowDown, ArrowUpDown } from 'lucide-react';
+import { MetadataField, buildPeopleCSV, downloadCSV, getMetadataColumns, saveCSVFile } from '../services/exportService';
+import { ConfidenceLevel, getConfidenceLevel } from '../services/parsers/matchConfidence';
+import { EditableField } from '../services/recordEdits';
+import { recordFiles, recordSources } from '../services/articleMerge';
+import { AuthorProfile } from '../services/authorResolution';
+import {
+  EMPTY_FILTERS,
+  SortKey,
+  TableFilters,
+  TableSort,
+  applyFilters,
+  countActiveFilters,
+  filtersFromSearchParams,
+  sortFromSearchParams,
+  sortRecords,
+  writeSearchParams
+} from '../services/tableFilters';
+import { EditableCell, NewRecordRow } from './RecordEditors';
+import { FilterPanel } from './FilterPanel';
+import { PEOPLE_COLUMNS, PersonRow } from './PersonRow';
+
+// Edits are handed to the owner of the data, which keeps the undo history.
+export interface TableEditing {
+  onUpdate: (record: ExtractedRecord, field: EditableField, value: string) => void;
+  onDelete: (record: ExtractedRecord) => void;
+  onAdd: (fields: Record<EditableField, string>) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
 
 interface DataTableProps {
   rawData: ExtractedRecord[];
   uniqueData: ExtractedRecord[];
+  people: AuthorProfile[];
+  editing: TableEditing;
   onClear: () => void;
 }
 
-const ROWS_PER_PAGE = 10;
+// 'scroll' renders every matching row in one virtualized list instead of pages.
+type PageSize = number | 'scroll';
+
+const PAGE_SIZE_OPTIONS = [10, 25, 50, 100, 250];
+const SEARCH_DEBOUNCE_MS = 250;
+// Virtualized rows are kept to one line so every row has this height.
+const VIRTUAL_ROW_HEIGHT = 53;
+const VIRTUAL_VIEWPORT_HEIGHT = 640;
+const VIRTUAL_OVERSCAN = 10;
+
+type TableView = 'raw' | 'unique' | 'people';
+
+const VIEW_FILENAMES: Record<TableView, string> = {
+  raw: 'authors_with_title_email.csv',
+  unique: 'unique_emails.csv',
+  people: 'people.csv'
+};
+
+const CONFIDENCE_STYLES: Record<ConfidenceLevel, string> = {
+  high: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  medium: 'bg-amber-50 text-amber-700 border-amber-200',
+  low: 'bg-red-50 text-red-700 border-red-200'
+};
+
+const METADATA_LINKS: Partial<Record<MetadataField, (value: string) => string>> = {
+  pmid: value => `https://pubmed.ncbi.nlm.nih.gov/${value}/`,
+  pmcid: value => `https://www.ncbi.nlm.nih.gov/pmc/articles/${value}/`,
+  doi: value => `https://doi.org/${value}`,
+  orcid: value => `https://orcid.org/${value}`
+};
 
-type TableView = 'raw' | 'unique';
+const SORTED_DEFAULT_DESC: SortKey[] = ['confidence', 'year'];
 
-export const DataTable: React.FC<DataTableProps> = ({ rawData, uniqueData, onClear }) => {
+interface SortHeaderProps {
+  label: string;
+  sortKey: SortKey;
+  sort: TableSort | null;
+  onSort: (key: SortKey) => void;
+  className?: string;
+}
+
+const SortHeader: React.FC<SortHeaderProps> = ({ label, sortKey, sort, onSort, className = '' }) => {
+  const active = sort?.key === sortKey;
+  const Icon = !active ? ArrowUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown;
+  return (
+    <th
+      scope="col"
+      aria-sort={active ? (sort.direction === 'asc' ? 'ascending' : 'descending') : 'none'}
+      className={`px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider ${className}`}
+    >
+      <button onClick={() => onSort(sortKey)} className="inline-flex items-center gap-1 uppercase hover:text-slate-800">
+        {label}
+        <Icon className={`h-3 w-3 ${active ? 'text-indigo-600' : 'text-slate-300'}`} />
+      </button>
+    </th>
+  );
+};
+
+const renderMetadataCell = (field: MetadataField, row: ExtractedRecord) => {
+  const value = row[field];
+  if (!value) return <span className="text-slate-300">&mdash;</span>;
+  const link = METADATA_LINKS[field];
+  if (link) {
+    return (
+      <a href={link(value)} target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:text-indigo-800">
+        {value}
+      </a>
+    );
+  }
+  if (field === 'affiliation' && value.length > 60) {
+    return <span title={value}>{value.substring(0, 60) + '...'}</span>;
+  }
+  if (field === 'sourceFile') {
+    // A merged record names every file and source its rows came from.
+    return (
+      <>
+        {recordFiles(row).join(', ')}
+        <span className="block text-xs text-slate-400">{recordSources(row).join(', ')}</span>
+      </>
+    );
+  }
+  return value;
+};
+
+export const DataTable: React.FC<DataTableProps> = ({ rawData, uniqueData, people, editing, onClear }) => {
   const [currentPage, setCurrentPage] = useState(1);
-  const [searchTerm, setSearchTerm] = useState("");
+  const [pageSize, setPageSize] = useState<PageSize>(10);
+  const [scrollTop, setScrollTop] = useState(0);
+  const scrollContainer = useRef<HTMLDivElement | null>(null);
   const [view, setView] = useState<TableView>('raw');
+  const [showDetails, setShowDetails] = useState(true);
+  const [isAdding, setIsAdding] = useState(false);
+  // Filters and sort live in the URL so a filtered view can be shared as a link.
+  const [filters, setFilters] = useState<TableFilters>(() =>
+    filtersFromSearchParams(new URLSearchParams(window.location.search))
+  );
+  const [sort, setSort] = useState<TableSort | null>(() =>
+    sortFromSearchParams(new URLSearchParams(window.location.search))
+  );
+  const [showFilters, setShowFilters] = useState(() => countActiveFilters(filters) > 0);
+  // The box updates immediately; the table only re-filters once typing pauses.
+  const [searchInput, setSearchInput] = useState(filters.search);
 
-  const activeData = view === 'raw' ? rawData : uniqueData;
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    writeSearchParams(url.searchParams, filters, sort);
+    window.history.replaceState(window.history.state, '', url);
+  }, [filters, sort]);
 
-  const filteredData = activeData.filter(item => 
-    item.title.toLowerCase().includes(searchTerm.toLowerCase()) || 
-    item.author.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    item.email.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  const isPeopleView = view === 'people';
+  const peopleRecords = useMemo(() => people.flatMap(person => person.records), [people]);
+  const activeData = view === 'raw' ? rawData : view === 'unique' ? uniqueData : peopleRecords;
+  const availableColumns = useMemo(() => getMetadataColumns(rawData), [rawData]);
+  const metadataColumns = showDetails ? availableColumns : [];
+  // Author, email, confidence, title, the metadata columns, and row actions.
+  const columnCount = isPeopleView ? PEOPLE_COLUMNS.length : 5 + metadataColumns.length;
+  const sources = useMemo(() => Array.from(new Set(rawData.map(row => row.source))).sort(), [rawData]);
+  const activeFilterCount = countActiveFilters(filters);
+
+  const matchingData = useMemo(() => applyFilters(activeData, filters), [activeData, filters]);
+  const filteredData = useMemo(() => sortRecords(matchingData, sort), [matchingData, sort]);
+  // Filters apply to records; a person is shown when any of their records matches.
+  const filteredPeople = useMemo(() => {
+    if (!isPeopleView) return people;
+    const matching = new Set(matchingData);
+    return people.filter(person => person.records.some(record => matching.has(record)));
+  }, [isPeopleView, people, matchingData]);
+  const rowTotal = isPeopleView ? filteredPeople.length : filteredData.length;
+  const isFiltered = isPeopleView ? filteredPeople.length !== people.length : filteredData.length !== activeData.length;
+
+  const resetPosition = () => {
+    setCurrentPage(1);
+    setScrollTop(0);
+    if (scrollContainer.current) scrollContainer.current.scrollTop = 0;
+  };
+
+  const updateFilters = (next: TableFilters) => {
+    setFilters(next);
+    resetPosition();
+  };
+
+  useEffect(() => {
+    if (searchInput === filters.search) return;
+    const timer = window.setTimeout(() => {
+      setFilters(current => ({ ...current, search: searchInput }));
+      resetPosition();
+    }, SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [searchInput]);
+
+  // First click sorts ascending (descending for numbers people usually want high-first),
+  // the second flips it, the third clears sorting.
+  const handleSort = (key: SortKey) => {
+    setSort(current => {
+      const initial = SORTED_DEFAULT_DESC.includes(key) ? 'desc' : 'asc';
+      if (current?.key !== key) return { key, direction: initial };
+      if (current.direction === initial) return { key, direction: initial === 'asc' ? 'desc' : 'asc' };
+      return null;
+    });
+    resetPosition();
+  };
+
+  const isVirtual = pageSize === 'scroll';
+  const rowsPerPage = isVirtual ? rowTotal : (pageSize as number);
+  const totalPages = isVirtual ? 1 : Math.max(1, Math.ceil(rowTotal / rowsPerPage));
+  const page = Math.min(currentPage, totalPages);
+  const startIndex = isVirtual
+    ? Math.max(0, Math.floor(scrollTop / VIRTUAL_ROW_HEIGHT) - VIRTUAL_OVERSCAN)
+    : (page - 1) * rowsPerPage;
+  const endIndex = isVirtual
+    ? Math.min(rowTotal, Math.ceil((scrollTop + VIRTUAL_VIEWPORT_HEIGHT) / VIRTUAL_ROW_HEIGHT) + VIRTUAL_OVERSCAN)
+    : Math.min(startIndex + rowsPerPage, rowTotal);
+  const currentData = isPeopleView ? [] : filteredData.slice(startIndex, endIndex);
+  const currentPeople = isPeopleView ? filteredPeople.slice(startIndex, endIndex) : [];
 
-  const totalPages = Math.ceil(filteredData.length / ROWS_PER_PAGE);
-  const startIndex = (currentPage - 1) * ROWS_PER_PAGE;
-  const currentData = filteredData.slice(startIndex, startIndex + ROWS_PER_PAGE);
+  const goToPage = (value: number) => {
+    if (Number.isFinite(value)) setCurrentPage(Math.min(totalPages, Math.max(1, Math.round(value))));
+  };
 
-  const handleDownload = () => {
-    const filename = view === 'raw' ? 'authors_with_title_email.csv' : 'unique_emails.csv';
-    downloadCSV(activeData, filename);
+  const handleDownload = (filteredOnly: boolean) => {
+    const filename = VIEW_FILENAMES[view];
+    const exportName = filteredOnly ? filename.replace('.csv', '_filtered.csv') : filename;
+    if (isPeopleView) {
+      saveCSVFile(buildPeopleCSV(filteredOnly ? filteredPeople : people), exportName);
+    } else {
+      downloadCSV(filteredOnly ? filteredData : activeData, exportName);
+    }
   };
 
+  const viewOptions: { view: TableView; label: string; count: number }[] = [
+    { view: 'raw', label: 'Raw', count: rawData.length },
+    { view: 'unique', label: 'Unique Emails', count: uniqueData.length },
+    { view: 'people', label: 'People', count: people.length }
+  ];
+
   return (
     <div className="bg-white rounded-xl shadow-sm border border-slate-200 flex flex-col h-full animate-in fade-in slide-in-from-bottom-4 duration-500">
       
       {/* Header Actions */}
       <div className="p-4 border-b border-slate-100 flex flex-col lg:flex-row justify-between items-center gap-4">
         <div className="flex items-center gap-2 w-full lg:w-auto">
-          <button
-            onClick={() => {
-              setView('raw');
-              setCurrentPage(1);
-            }}
-            className={`px-3 py-2 text-sm font-medium rounded-lg border transition-colors ${
-              view === 'raw'
-                ? 'bg-indigo-600 text-white border-indigo-600'
-                : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'
-            }`}
-          >
-            Raw ({rawData.length})
-          </button>
-          <button
-            onClick={() => {
-              setView('unique');
-              setCurrentPage(1);
-            }}
-            className={`px-3 py-2 text-sm font-medium rounded-lg border transition-colors ${
-              view === 'unique'
-                ? 'bg-indigo-600 text-white border-indigo-600'
-                : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'
-            }`}
-          >
-            Unique Emails ({uniqueData.length})
-          </button>
+          {viewOptions.map(option => (
+            <button
+              key={option.view}
+              onClick={() => {
+                setView(option.view);
+                setIsAdding(false);
+                resetPosition();
+              }}
+              className={`px-3 py-2 text-sm font-medium rounded-lg border transition-colors ${
+                view === option.view
+                  ? 'bg-indigo-600 text-white border-indigo-600'
+                  : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'
+              }`}
+            >
+              {option.label} ({option.count})
+            </button>
+          ))}
         </div>
         <div className="relative w-full sm:w-64">
           <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -76,23 +268,81 @@ export const DataTable: React.FC<DataTableProps> = ({ rawData, uniqueData, onCle
             type="text"
             className="pl-10 pr-4 py-2 w-full border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all"
             placeholder="Filter results..."
-            value={searchTerm}
-            onChange={(e) => {
-              setSearchTerm(e.target.value);
-              setCurrentPage(1);
-            }}
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
           />
         </div>
 
         <div className="flex gap-2 w-full sm:w-auto">
+          <div className="flex">
+            <button
+              onClick={editing.onUndo}
+              disabled={!editing.canUndo}
+              className="px-2.5 py-2 text-slate-600 bg-white border border-slate-200 rounded-l-lg hover:bg-slate-50 disabled:opacity-40 disabled:cursor-not-allowed"
+              title="Undo (Ctrl+Z)"
+            >
+              <Undo2 className="h-4 w-4" />
+            </button>
+            <button
+              onClick={editing.onRedo}
+              disabled={!editing.canRedo}
+              className="px-2.5 py-2 text-slate-600 bg-white border border-l-0 border-slate-200 rounded-r-lg hover:bg-slate-50 disabled:opacity-40 disabled:cursor-not-allowed"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <Redo2 className="h-4 w-4" />
+            </button>
+          </div>
+          <button
+            onClick={() => setIsAdding(true)}
+            disabled={isAdding || isPeopleView}
+            className="px-3 py-2 text-sm font-medium text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 disabled:opacity-40 transition-colors flex items-center gap-2"
+          >
+            <Plus className="h-4 w-4" />
+            Add Row
+          </button>
+          <button
+            onClick={() => setShowFilters(value => !value)}
+            className={`px-3 py-2 text-sm font-medium rounded-lg border transition-colors flex items-center gap-2 ${
+              showFilters || activeFilterCount > 0
+                ? 'bg-indigo-50 text-indigo-700 border-indigo-200'
+                : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'
+            }`}
+          >
+            <Filter className="h-4 w-4" />
+            Filters{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}
+          </button>
+          {availableColumns.length > 0 && (
+            <button
+              onClick={() => setShowDetails(value => !value)}
+              className={`px-3 py-2 text-sm font-medium rounded-lg border transition-colors flex items-center gap-2 ${
+                showDetails
+                  ? 'bg-indigo-50 text-indigo-700 border-indigo-200'
+                  : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'
+              }`}
+              title="Show or hide PMID, DOI, journal, year and affiliation columns"
+            >
+              <Columns className="h-4 w-4" />
+              Details
+            </button>
+          )}
            <button 
             onClick={onClear}
             className="px-4 py-2 text-sm font-medium text-slate-600 bg-slate-100 rounded-lg hover:bg-slate-200 transition-colors w-1/2 sm:w-auto"
           >
             Clear Data
           </button>
+          {isFiltered && (
+            <button
+              onClick={() => handleDownload(true)}
+              className="px-4 py-2 text-sm font-medium text-indigo-700 bg-indigo-50 border border-indigo-200 rounded-lg hover:bg-indigo-100 transition-colors flex items-center justify-center gap-2 w-1/2 sm:w-auto"
+              title="Export only the rows matching the current search and filters"
+            >
+              <Download className="h-4 w-4" />
+              Export Filtered ({rowTotal})
+            </button>
+          )}
           <button 
-            onClick={handleDownload}
+            onClick={() => handleDownload(false)}
             className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors flex items-center justify-center gap-2 w-1/2 sm:w-auto"
           >
             <Download className="h-4 w-4" />
@@ -101,68 +351,218 @@ export const DataTable: React.FC<DataTableProps> = ({ rawData, uniqueData, onCle
         </div>
       </div>
 
+      {showFilters && (
+        <FilterPanel
+          filters={filters}
+          sources={sources}
+          onChange={updateFilters}
+          onReset={() => updateFilters({ ...EMPTY_FILTERS, search: filters.search })}
+        />
+      )}
+
       {/* Table */}
-      <div className="overflow-x-auto flex-grow">
+      <div
+        ref={scrollContainer}
+        className={`overflow-x-auto flex-grow ${isVirtual ? 'overflow-y-auto' : ''}`}
+        style={isVirtual ? { maxHeight: VIRTUAL_VIEWPORT_HEIGHT } : undefined}
+        onScroll={isVirtual ? (e) => setScrollTop(e.currentTarget.scrollTop) : undefined}
+      >
         <table className="min-w-full divide-y divide-slate-200">
-          <thead className="bg-slate-50">
-            <tr>
-              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider w-1/4">Author</th>
-              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider w-1/4">Email</th>
-              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider w-1/2">Title</th>
-            </tr>
+          <thead className={`bg-slate-50 ${isVirtual ? 'sticky top-0 z-[1]' : ''}`}>
+            {isPeopleView ? (
+              <tr>
+                {PEOPLE_COLUMNS.map(label => (
+                  <th key={label} scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            ) : (
+              <tr>
+                <SortHeader label="Author" sortKey="author" sort={sort} onSort={handleSort} className="w-1/4" />
+                <SortHeader label="Email" sortKey="email" sort={sort} onSort={handleSort} className="w-1/4" />
+                <SortHeader label="Confidence" sortKey="confidence" sort={sort} onSort={handleSort} />
+                <SortHeader label="Title" sortKey="title" sort={sort} onSort={handleSort} className="w-1/2" />
+                {metadataColumns.map(column => (
+                  <SortHeader
+                    key={column.key}
+                    label={column.label}
+                    sortKey={column.key}
+                    sort={sort}
+                    onSort={handleSort}
+                    className="whitespace-nowrap"
+                  />
+                ))}
+                <th scope="col" className="px-4 py-3"><span className="sr-only">Actions</span></th>
+              </tr>
+            )}
           </thead>
           <tbody className="bg-white divide-y divide-slate-200">
-            {currentData.length > 0 ? (
-              currentData.map((row) => (
-                <tr key={row.id} className="hover:bg-slate-50 transition-colors">
-                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900">{row.author}</td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-indigo-600 hover:text-indigo-800">
+            {isAdding && (
+              <NewRecordRow
+                columnCount={columnCount}
+                onSave={(fields) => {
+                  editing.onAdd(fields);
+                  setIsAdding(false);
+                }}
+                onCancel={() => setIsAdding(false)}
+              />
+            )}
+            {isVirtual && startIndex > 0 && (
+              <tr aria-hidden="true" style={{ height: startIndex * VIRTUAL_ROW_HEIGHT }} />
+            )}
+            {currentPeople.map(person => (
+              <PersonRow key={person.id} person={person} compact={isVirtual} height={isVirtual ? VIRTUAL_ROW_HEIGHT : undefined} />
+            ))}
+            {currentData.map((row) => (
+              <tr
+                key={row.id}
+                className={`group hover:bg-slate-50 transition-colors ${isVirtual ? '[&>td]:whitespace-nowrap [&>td]:py-3' : ''}`}
+                style={isVirtual ? { height: VIRTUAL_ROW_HEIGHT } : undefined}
+              >
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900">
+                  <EditableCell field="author" value={row.author} onSave={value => editing.onUpdate(row, 'author', value)}>
+                    {row.author}
+                    {row.editStatus && (
+                      <span className="ml-2 px-1.5 py-0.5 rounded bg-violet-50 text-violet-700 text-xs font-normal">
+                        {row.editStatus}
+                      </span>
+                    )}
+                  </EditableCell>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-indigo-600 hover:text-indigo-800">
+                  <EditableCell field="email" value={row.email} onSave={value => editing.onUpdate(row, 'email', value)}>
                     <a href={`mailto:${row.email}`}>{row.email}</a>
-                  </td>
-                  <td className="px-6 py-4 text-sm text-slate-600 break-words line-clamp-2 max-w-md" title={row.title}>
+                  </EditableCell>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                  <span
+                    className={`inline-flex items-center px-2 py-0.5 rounded-full border text-xs font-medium ${CONFIDENCE_STYLES[getConfidenceLevel(row.confidence)]}`}
+                    title={row.matchReason}
+                  >
+                    {row.confidence}
+                  </span>
+                  <span className="ml-2 text-xs text-slate-500">{row.matchReason}</span>
+                </td>
+                <td className="px-6 py-4 text-sm text-slate-600 break-words max-w-md" title={row.title}>
+                  <EditableCell field="title" value={row.title} onSave={value => editing.onUpdate(row, 'title', value)}>
                     {row.title.length > 80 ? row.title.substring(0, 80) + '...' : row.title}
+                  </EditableCell>
+                </td>
+                {metadataColumns.map(column => (
+                  <td
+                    key={column.key}
+                    className={`px-6 py-4 text-sm text-slate-600 ${column.key === 'affiliation' || column.key === 'journal' ? 'min-w-[12rem]' : 'whitespace-nowrap'}`}
+                  >
+                    {renderMetadataCell(column.key, row)}
                   </td>
-                </tr>
-              ))
-            ) : (
+                ))}
+                <td className="px-4 py-4 whitespace-nowrap text-right">
+                  <button
+                    onClick={() => editing.onDelete(row)}
+                    className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-md opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                    title="Delete row"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {rowTotal === 0 && (
               <tr>
-                <td colSpan={3} className="px-6 py-12 text-center text-slate-500 text-sm">
+                <td colSpan={columnCount} className="px-6 py-12 text-center text-slate-500 text-sm">
                   No records found matching your filter.
                 </td>
               </tr>
             )}
+            {isVirtual && endIndex < rowTotal && (
+              <tr aria-hidden="true" style={{ height: (rowTotal - endIndex) * VIRTUAL_ROW_HEIGHT }} />
+            )}
           </tbody>
         </table>
       </div>
 
       {/* Footer / Pagination */}
       <div className="bg-slate-50 px-4 py-3 border-t border-slate-200 flex items-center justify-between sm:px-6">
-        <div className="hidden sm:flex-1 sm:flex sm:items-center sm:justify-between">
-          <div>
+        <div className="flex-1 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div className="flex items-center gap-4">
             <p className="text-sm text-slate-700">
-              Showing <span className="font-medium">{startIndex + 1}</span> to <span className="font-medium">{Math.min(startIndex + ROWS_PER_PAGE, filteredData.length)}</span> of <span className="font-medium">{filteredData.length}</span> results
+              {isVirtual ? (
+                <><span className="font-medium">{rowTotal}</span> results</>
+              ) : (
+                <>
+                  Showing <span className="font-medium">{rowTotal === 0 ? 0 : startIndex + 1}</span> to <span className="font-medium">{endIndex}</span> of <span className="font-medium">{rowTotal}</span> results
+                </>
+              )}
             </p>
+            <select
+              value={String(pageSize)}
+              onChange={(e) => {
+                setPageSize(e.target.value === 'scroll' ? 'scroll' : Number(e.target.value));
+                resetPosition();
+              }}
+              className="px-2 py-1 text-sm border border-slate-300 rounded-md bg-white text-slate-600 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              aria-label="Rows per page"
+            >
+              {PAGE_SIZE_OPTIONS.map(size => (
+                <option key={size} value={size}>{size} per page</option>
+              ))}
+              <option value="scroll">All (scroll)</option>
+            </select>
           </div>
-          <div>
-            <nav className="relative z-0 inline-flex rounded-md shadow-sm -space-x-px" aria-label="Pagination">
-              <button
-                onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
-                disabled={currentPage === 1}
-                className="relative inline-flex items-center px-2 py-2 rounded-l-md border border-slate-300 bg-white text-sm font-medium text-slate-500 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                <span className="sr-only">Previous</span>
-                <ChevronLeft className="h-5 w-5" />
-              </button>
-              <button
-                onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
-                disabled={currentPage === totalPages || totalPages === 0}
-                className="relative inline-flex items-center px-2 py-2 rounded-r-md border border-slate-300 bg-white text-sm font-medium text-slate-500 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                <span className="sr-only">Next</span>
-                <ChevronRight className="h-5 w-5" />
-              </button>
+          {!isVirtual && (
+            <nav className="flex items-center gap-2" aria-label="Pagination">
+              <span className="text-sm text-slate-600">Page</span>
+              <input
+                key={page}
+                type="number"
+                min={1}
+                max={totalPages}
+                defaultValue={page}
+                onBlur={(e) => goToPage(Number(e.target.value))}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') goToPage(Number(e.currentTarget.value));
+                }}
+                className="w-16 px-2 py-1 text-sm border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                aria-label="Current page"
+              />
+              <span className="text-sm text-slate-600">of {totalPages}</span>
+              <div className="relative z-0 inline-flex rounded-md shadow-sm -space-x-px">
+                <button
+                  onClick={() => goToPage(1)}
+                  disabled={page === 1}
+                  className="relative inline-flex items-center px-2 py-2 rounded-l-md border border-slate-300 bg-white text-sm font-medium text-slate-500 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <span className="sr-only">First</span>
+                  <ChevronsLeft className="h-5 w-5" />
+                </button>
+                <button
+                  onClick={() => goToPage(page - 1)}
+                  disabled={page === 1}
+                  className="relative inline-flex items-center px-2 py-2 border border-slate-300 bg-white text-sm font-medium text-slate-500 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <span className="sr-only">Previous</span>
+                  <ChevronLeft className="h-5 w-5" />
+                </button>
+                <button
+                  onClick={() => goToPage(page + 1)}
+                  disabled={page === totalPages}
+                  className="relative inline-flex items-center px-2 py-2 border border-slate-300 bg-white text-sm font-medium text-slate-500 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <span className="sr-only">Next</span>
+                  <ChevronRight className="h-5 w-5" />
+                </button>
+                <button
+                  onClick={() => goToPage(totalPages)}
+                  disabled={page === totalPages}
+                  className="relative inline-flex items-center px-2 py-2 rounded-r-md border border-slate-300 bg-white text-sm font-medium text-slate-500 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <span className="sr-only">Last</span>
+                  <ChevronsRight className="h-5 w-5" />
+                </button>
+              </div>
             </nav>
-          </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,113 @@
+import React from 'react';
+import { AlertTriangle, LoaderCircle, Play, X } from 'lucide-react';
+import { DataSourceType } from '../types';
+import { getParser, listParsers } from '../services/parsers/registry';
+import { isArchiveName } from '../services/archiveReader';
+
+// A file waiting to be parsed. `source` is the one chosen for it; null means its detected format is used.
+export interface StagedFile {
+  id: string;
+  file: File;
+  source: DataSourceType | null;
+  detectedSource: DataSourceType | null;
+  isDetecting: boolean;
+}
+
+interface FileQueueProps {
+  files: StagedFile[];
+  onSourceChange: (id: string, source: DataSourceType | null) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  onStart: () => void;
+}
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const autoDetectLabel = (file: StagedFile) => {
+  if (isArchiveName(file.file.name)) return 'Auto-detect (per archive entry)';
+  if (file.isDetecting) return 'Auto-detect (checking...)';
+  return file.detectedSource ? `Auto-detect (${getParser(file.detectedSource).name})` : 'Auto-detect (not recognized)';
+};
+
+// Archives are only opened at parse time, so they never count as unrecognized here.
+const isUnresolved = (file: StagedFile) =>
+  !file.source && !file.detectedSource && !file.isDetecting && !isArchiveName(file.file.name);
+
+export const FileQueue: React.FC<FileQueueProps> = ({ files, onSourceChange, onRemove, onClear, onStart }) => {
+  const unresolvedCount = files.filter(isUnresolved).length;
+
+  return (
+    <div className="mt-6 bg-white rounded-xl shadow-sm border border-slate-200">
+      <div className="p-4 border-b border-slate-100 flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-sm font-semibold text-slate-900">
+            {files.length} file{files.length === 1 ? '' : 's'} ready
+          </h3>
+          <p className="text-xs text-slate-500 mt-0.5">Check the source assigned to each file, then start the extraction.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onClear}
+            className="px-3 py-1.5 text-sm font-medium text-slate-600 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+          >
+            Clear
+          </button>
+          <button
+            onClick={onStart}
+            disabled={files.some(file => file.isDetecting)}
+            className="px-3 py-1.5 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors flex items-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Play className="h-4 w-4" />
+            Start Extraction
+          </button>
+        </div>
+      </div>
+
+      <ul className="divide-y divide-slate-100 max-h-80 overflow-y-auto">
+        {files.map(file => {
+          const unresolved = isUnresolved(file);
+          return (
+            <li key={file.id} className="px-4 py-3 flex items-center gap-3">
+              <div className="min-w-0 flex-grow">
+                <p className="text-sm font-medium text-slate-900 truncate" title={file.file.name}>{file.file.name}</p>
+                <p className="text-xs text-slate-500">{formatBytes(file.file.size)}</p>
+              </div>
+              {file.isDetecting && <LoaderCircle className="h-4 w-4 text-slate-400 animate-spin flex-shrink-0" />}
+              <select
+                value={file.source ?? ''}
+                onChange={(e) => onSourceChange(file.id, (e.target.value || null) as DataSourceType | null)}
+                className={`px-2 py-1.5 text-sm border rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                  unresolved ? 'border-amber-300 text-amber-800' : 'border-slate-300 text-slate-700'
+                }`}
+                aria-label={`Source for ${file.file.name}`}
+              >
+                <option value="">{autoDetectLabel(file)}</option>
+                {listParsers().map(parser => (
+                  <option key={parser.id} value={parser.id}>{parser.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => onRemove(file.id)}
+                className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-md flex-shrink-0"
+                title="Remove file"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      {unresolvedCount > 0 && (
+        <p className="px-4 py-3 text-xs text-amber-700 border-t border-amber-100 bg-amber-50/60 flex items-center gap-2">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          {unresolvedCount} file{unresolvedCount === 1 ? ' has' : 's have'} no recognized format. Choose a source, or
+          {unresolvedCount === 1 ? ' it' : ' they'} will be reported as failed.
+        </p>
+      )}
+    </div>
+  );
+};
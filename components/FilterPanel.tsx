@@ -0,0 +1,133 @@
+import React from 'react';
+import { TableFilters } from '../services/tableFilters';
+
+interface FilterPanelProps {
+  filters: TableFilters;
+  sources: string[];
+  onChange: (filters: TableFilters) => void;
+  onReset: () => void;
+}
+
+const LABEL_CLASS = 'block text-xs font-medium text-slate-500 uppercase tracking-wider mb-1';
+const INPUT_CLASS =
+  'px-2 py-1.5 text-sm border border-slate-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+export const FilterPanel: React.FC<FilterPanelProps> = ({ filters, sources, onChange, onReset }) => {
+  const update = (changes: Partial<TableFilters>) => onChange({ ...filters, ...changes });
+
+  const toggleSource = (source: string) =>
+    update({
+      sources: filters.sources.includes(source)
+        ? filters.sources.filter(entry => entry !== source)
+        : [...filters.sources, source]
+    });
+
+  return (
+    <div className="px-4 py-4 border-b border-slate-100 bg-slate-50/60 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+      <div>
+        <label className={LABEL_CLASS}>Email Domain</label>
+        <div className="flex gap-2">
+          <select
+            value={filters.domainMatch}
+            onChange={(e) => update({ domainMatch: e.target.value as TableFilters['domainMatch'] })}
+            className={INPUT_CLASS}
+          >
+            <option value="equals">equals</option>
+            <option value="endsWith">ends with</option>
+          </select>
+          <input
+            value={filters.emailDomain}
+            onChange={(e) => update({ emailDomain: e.target.value })}
+            placeholder={filters.domainMatch === 'equals' ? 'harvard.edu' : 'edu'}
+            className={`${INPUT_CLASS} w-full min-w-0`}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className={LABEL_CLASS}>Publication Year</label>
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            value={filters.yearFrom}
+            onChange={(e) => update({ yearFrom: e.target.value })}
+            placeholder="From"
+            className={`${INPUT_CLASS} w-full min-w-0`}
+          />
+          <span className="text-slate-400">&ndash;</span>
+          <input
+            type="number"
+            value={filters.yearTo}
+            onChange={(e) => update({ yearTo: e.target.value })}
+            placeholder="To"
+            className={`${INPUT_CLASS} w-full min-w-0`}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className={LABEL_CLASS}>Confidence</label>
+        <div className="flex gap-2">
+          <select
+            value={filters.confidenceLevel}
+            onChange={(e) => update({ confidenceLevel: e.target.value as TableFilters['confidenceLevel'] })}
+            className={INPUT_CLASS}
+          >
+            <option value="all">Any level</option>
+            <option value="high">High</option>
+            <option value="medium">Medium</option>
+            <option value="low">Low</option>
+          </select>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={filters.confidenceBelow}
+            onChange={(e) => update({ confidenceBelow: e.target.value })}
+            placeholder="Below"
+            title="Only rows with a confidence below this value"
+            className={`${INPUT_CLASS} w-full min-w-0`}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className={LABEL_CLASS}>ORCID</label>
+        <select
+          value={filters.orcid}
+          onChange={(e) => update({ orcid: e.target.value as TableFilters['orcid'] })}
+          className={`${INPUT_CLASS} w-full`}
+        >
+          <option value="any">Any</option>
+          <option value="has">Has ORCID</option>
+          <option value="lacks">No ORCID</option>
+        </select>
+      </div>
+
+      <div className="md:col-span-2 lg:col-span-3">
+        <label className={LABEL_CLASS}>Source</label>
+        <div className="flex flex-wrap gap-2">
+          {sources.map(source => (
+            <button
+              key={source}
+              onClick={() => toggleSource(source)}
+              className={`px-2.5 py-1 text-xs font-medium rounded-full border transition-colors ${
+                filters.sources.includes(source)
+                  ? 'bg-indigo-600 text-white border-indigo-600'
+                  : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'
+              }`}
+            >
+              {source}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-end justify-end">
+        <button onClick={onReset} className="text-sm font-medium text-slate-500 hover:text-indigo-600">
+          Reset filters
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React from 'react';
+import { AlertCircle, CheckCircle2, ClipboardList, Download } from 'lucide-react';
+import { FileReport, buildReportCSV } from '../services/parseReport';
+import { describeSkipped } from '../services/parsers/skipReasons';
+import { saveCSVFile } from '../services/exportService';
+
+interface ParseReportProps {
+  report: FileReport[];
+}
+
+const HEADER_CLASS = 'px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase tracking-wider';
+
+export const ParseReport: React.FC<ParseReportProps> = ({ report }) => {
+  const failedCount = report.filter(file => file.error).length;
+
+  return (
+    <div className="mt-6 bg-white rounded-xl shadow-sm border border-slate-200">
+      <div className="p-4 border-b border-slate-100 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <ClipboardList className="h-5 w-5 text-slate-500" />
+          <h3 className="text-sm font-semibold text-slate-900">Parse Report</h3>
+          <span className="text-xs text-slate-500">
+            {report.length} file{report.length === 1 ? '' : 's'}
+            {failedCount > 0 ? `, ${failedCount} failed` : ''}
+          </span>
+        </div>
+        <button
+          onClick={() => saveCSVFile(buildReportCSV(report), 'parse_report.csv')}
+          className="px-3 py-1.5 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors flex items-center gap-1.5"
+        >
+          <Download className="h-4 w-4" />
+          Download Report
+        </button>
+      </div>
+      <div className="overflow-x-auto max-h-80">
+        <table className="min-w-full divide-y divide-slate-200 text-sm">
+          <thead className="bg-slate-50">
+            <tr>
+              <th className={HEADER_CLASS}>File</th>
+              <th className={HEADER_CLASS}>Format</th>
+              <th className={`${HEADER_CLASS} text-right`}>Articles</th>
+              <th className={HEADER_CLASS}>Skipped</th>
+              <th className={`${HEADER_CLASS} text-right`}>Records</th>
+              <th className={HEADER_CLASS}>Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {report.map((file, index) => (
+              <tr key={`${file.fileName}-${index}`}>
+                <td className="px-4 py-2 text-slate-900 max-w-[16rem] truncate" title={file.fileName}>{file.fileName}</td>
+                <td className="px-4 py-2 text-slate-600 whitespace-nowrap">{file.format}</td>
+                <td className="px-4 py-2 text-slate-600 text-right">{file.articlesSeen}</td>
+                <td className="px-4 py-2 text-slate-600">
+                  {file.articlesSkipped > 0 ? (
+                    <>
+                      <span className="font-medium">{file.articlesSkipped}</span>
+                      <span className="text-xs text-slate-500"> ({describeSkipped(file.skipped)})</span>
+                    </>
+                  ) : (
+                    '0'
+                  )}
+                </td>
+                <td className="px-4 py-2 text-slate-900 font-medium text-right">{file.recordsEmitted}</td>
+                <td className="px-4 py-2">
+                  {file.error ? (
+                    <span className="flex items-start gap-1.5 text-red-700">
+                      <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                      {file.error}
+                    </span>
+                  ) : (
+                    <span className="flex items-center gap-1.5 text-emerald-700">
+                      <CheckCircle2 className="h-4 w-4" />
+                      Parsed
+                    </span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React, { useState } from 'react';
+import { ClipboardPaste, X } from 'lucide-react';
+
+interface PasteTextPanelProps {
+  onAdd: (text: string) => void;
+  onClose: () => void;
+}
+
+// For records copied straight out of PubMed (MEDLINE or abstract view) without saving a file first.
+export const PasteTextPanel: React.FC<PasteTextPanelProps> = ({ onAdd, onClose }) => {
+  const [text, setText] = useState('');
+
+  return (
+    <div className="mt-4 bg-white rounded-xl shadow-sm border border-slate-200 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-semibold text-slate-900">Paste Text</h3>
+          <p className="text-xs text-slate-500 mt-0.5">MEDLINE or abstract text copied from PubMed. It is added to the batch as a file.</p>
+        </div>
+        <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-md" title="Close">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+      <textarea
+        autoFocus
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={8}
+        placeholder={'PMID- 12345678\nTI  - Article title...\nFAU - Smith, Jane\nAD  - Department..., jane.smith@example.org'}
+        className="w-full px-3 py-2 text-sm font-mono border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+      />
+      <div className="flex justify-end">
+        <button
+          onClick={() => {
+            onAdd(text);
+            setText('');
+          }}
+          disabled={!text.trim()}
+          className="px-3 py-1.5 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors flex items-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <ClipboardPaste className="h-4 w-4" />
+          Add to Batch
+        </button>
+      </div>
+    </div>
+  );
+};
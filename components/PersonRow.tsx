@@ -0,0 +1,69 @@
+import React from 'react';
+import { AuthorProfile } from '../services/authorResolution';
+
+interface PersonRowProps {
+  person: AuthorProfile;
+  // Virtual scrolling needs every row at one fixed height, so lists collapse to a single line.
+  compact: boolean;
+  height?: number;
+}
+
+export const PEOPLE_COLUMNS = ['Person', 'Emails', 'Papers', 'Most Recent Affiliation', 'Sources'];
+
+const LISTED_PAPERS = 3;
+
+export const PersonRow: React.FC<PersonRowProps> = ({ person, compact, height }) => {
+  const hiddenPapers = person.papers.length - LISTED_PAPERS;
+  const paperList = person.papers.map(paper => (paper.year ? `${paper.title} (${paper.year})` : paper.title));
+
+  return (
+    <tr
+      className={`hover:bg-slate-50 transition-colors align-top ${compact ? '[&>td]:whitespace-nowrap [&>td]:py-3' : ''}`}
+      style={height ? { height } : undefined}
+    >
+      <td className="px-6 py-4 text-sm font-medium text-slate-900 whitespace-nowrap">
+        {person.name}
+        {person.orcid && !compact && (
+          <a
+            href={`https://orcid.org/${person.orcid}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="block text-xs font-normal text-indigo-600 hover:text-indigo-800"
+          >
+            {person.orcid}
+          </a>
+        )}
+      </td>
+      <td className="px-6 py-4 text-sm text-indigo-600">
+        {compact ? (
+          person.emails.join(', ')
+        ) : (
+          person.emails.map(email => (
+            <a key={email} href={`mailto:${email}`} className="block hover:text-indigo-800 whitespace-nowrap">{email}</a>
+          ))
+        )}
+      </td>
+      <td className="px-6 py-4 text-sm text-slate-600 max-w-md" title={paperList.join('\n')}>
+        <span className="font-medium text-slate-900">{person.papers.length}</span>
+        {compact ? (
+          <span className="ml-2">{paperList[0]}</span>
+        ) : (
+          <ul className="mt-1 space-y-0.5 text-xs">
+            {paperList.slice(0, LISTED_PAPERS).map((paper, index) => (
+              <li key={index} className="truncate">{paper}</li>
+            ))}
+            {hiddenPapers > 0 && <li className="text-slate-400">and {hiddenPapers} more</li>}
+          </ul>
+        )}
+      </td>
+      <td className="px-6 py-4 text-sm text-slate-600 min-w-[12rem]" title={person.affiliation}>
+        {person.affiliation ? (
+          person.affiliation.length > 60 ? `${person.affiliation.substring(0, 60)}...` : person.affiliation
+        ) : (
+          <span className="text-slate-300">&mdash;</span>
+        )}
+      </td>
+      <td className="px-6 py-4 text-sm text-slate-600 whitespace-nowrap">{person.sources.join(', ')}</td>
+    </tr>
+  );
+};
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Check, Pencil, X } from 'lucide-react';
+import { EditableField, validateField } from '../services/recordEdits';
+
+const INPUT_CLASS =
+  'w-full px-2 py-1 text-sm border rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+interface EditableCellProps {
+  field: EditableField;
+  value: string;
+  onSave: (value: string) => void;
+  children: React.ReactNode;
+}
+
+// Shows the value normally; double-click or the pencil turns it into an input.
+// Enter or leaving the field saves, Escape cancels. Invalid values keep the input open.
+export const EditableCell: React.FC<EditableCellProps> = ({ field, value, onSave, children }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const error = draft === null ? null : validateField(field, draft);
+
+  const commit = () => {
+    if (draft === null || error) return;
+    if (draft.trim() !== value) onSave(draft);
+    setDraft(null);
+  };
+
+  if (draft === null) {
+    return (
+      <div className="group/cell flex items-center gap-2" onDoubleClick={() => setDraft(value)}>
+        <div className="min-w-0">{children}</div>
+        <button
+          onClick={() => setDraft(value)}
+          className="opacity-0 group-hover/cell:opacity-100 focus:opacity-100 text-slate-400 hover:text-indigo-600 transition-opacity flex-shrink-0"
+          title={`Edit ${field}`}
+        >
+          <Pencil className="h-3.5 w-3.5" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <input
+        autoFocus
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit();
+          if (e.key === 'Escape') setDraft(null);
+        }}
+        className={`${INPUT_CLASS} ${error ? 'border-red-300' : 'border-slate-300'}`}
+      />
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+};
+
+interface NewRecordRowProps {
+  columnCount: number;
+  onSave: (fields: Record<EditableField, string>) => void;
+  onCancel: () => void;
+}
+
+const EMPTY_RECORD: Record<EditableField, string> = { author: '', email: '', title: '' };
+
+// Inline form for a record the parsers missed.
+export const NewRecordRow: React.FC<NewRecordRowProps> = ({ columnCount, onSave, onCancel }) => {
+  const [fields, setFields] = useState(EMPTY_RECORD);
+  const [showErrors, setShowErrors] = useState(false);
+  const errors = (Object.keys(fields) as EditableField[])
+    .map(field => validateField(field, fields[field]))
+    .filter((error): error is string => !!error);
+
+  const save = () => {
+    if (errors.length > 0) {
+      setShowErrors(true);
+      return;
+    }
+    onSave(fields);
+  };
+
+  const input = (field: EditableField, placeholder: string) => (
+    <input
+      value={fields[field]}
+      placeholder={placeholder}
+      onChange={(e) => setFields(current => ({ ...current, [field]: e.target.value }))}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') save();
+        if (e.key === 'Escape') onCancel();
+      }}
+      className={`${INPUT_CLASS} border-slate-300`}
+    />
+  );
+
+  return (
+    <tr className="bg-indigo-50/50">
+      <td className="px-6 py-3">{input('author', 'Author name')}</td>
+      <td className="px-6 py-3">{input('email', 'name@example.org')}</td>
+      <td className="px-6 py-3 text-xs text-slate-500">Manual</td>
+      <td className="px-6 py-3" colSpan={Math.max(1, columnCount - 4)}>
+        {input('title', 'Article title')}
+        {showErrors && errors.length > 0 && <p className="text-xs text-red-600 mt-1">{errors.join(' ')}</p>}
+      </td>
+      <td className="px-4 py-3 whitespace-nowrap text-right">
+        <button onClick={save} className="p-1.5 text-emerald-600 hover:bg-emerald-50 rounded-md" title="Add record">
+          <Check className="h-4 w-4" />
+        </button>
+        <button onClick={onCancel} className="p-1.5 text-slate-500 hover:bg-slate-100 rounded-md" title="Cancel">
+          <X className="h-4 w-4" />
+        </button>
+      </td>
+    </tr>
+  );
+};
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Check, Trash2, UserCheck } from 'lucide-react';
+import { ExtractedRecord } from '../types';
+import { ReviewDecision } from '../services/reviewDecisions';
+
+interface ReviewQueueProps {
+  records: ExtractedRecord[];
+  onDecision: (record: ExtractedRecord, decision: ReviewDecision) => void;
+}
+
+// Only the head of the queue is rendered; the rest moves up as decisions are made.
+const VISIBLE_ITEMS = 20;
+
+// Splits the source text around the email so it can be highlighted.
+const highlightEmail = (text: string, email: string) => {
+  const index = text.toLowerCase().indexOf(email.toLowerCase());
+  if (index === -1) return text;
+  return (
+    <>
+      {text.slice(0, index)}
+      <mark className="bg-amber-100 text-amber-900 rounded px-0.5">{text.slice(index, index + email.length)}</mark>
+      {text.slice(index + email.length)}
+    </>
+  );
+};
+
+interface ReviewItemProps {
+  record: ExtractedRecord;
+  onDecision: (decision: ReviewDecision) => void;
+}
+
+const ReviewItem: React.FC<ReviewItemProps> = ({ record, onDecision }) => {
+  const [selectedAuthor, setSelectedAuthor] = useState(record.author);
+  const { authors, emails, emailSource } = record.review!;
+
+  return (
+    <li className="p-4 space-y-3">
+      <div>
+        <p className="text-sm font-medium text-slate-900">{record.title}</p>
+        <p className="text-xs text-slate-500 mt-1">
+          {record.source}
+          {record.pmid ? ` \u00b7 PMID ${record.pmid}` : ''}
+          {` \u00b7 ${record.matchReason} (${record.confidence})`}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+        <div>
+          <p className="text-xs font-medium text-slate-500 uppercase tracking-wider mb-1">Authors</p>
+          <p className="text-slate-700">
+            {authors.map((author, index) => (
+              <span key={`${index}-${author}`} className={author === record.author ? 'font-semibold text-indigo-700' : ''}>
+                {author}{index < authors.length - 1 ? ', ' : ''}
+              </span>
+            ))}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs font-medium text-slate-500 uppercase tracking-wider mb-1">Candidate Emails</p>
+          <p className="text-slate-700">
+            {emails.map((email, index) => (
+              <span key={email} className={email === record.email ? 'font-semibold text-indigo-700' : ''}>
+                {email}{index < emails.length - 1 ? ', ' : ''}
+              </span>
+            ))}
+          </p>
+        </div>
+      </div>
+
+      {emailSource && (
+        <div className="text-sm">
+          <p className="text-xs font-medium text-slate-500 uppercase tracking-wider mb-1">Found In</p>
+          <p className="text-slate-600 bg-slate-50 border border-slate-200 rounded-lg p-2">
+            {highlightEmail(emailSource, record.email)}
+          </p>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-slate-700">
+          <span className="font-medium">{record.email}</span> belongs to
+        </span>
+        <select
+          value={selectedAuthor}
+          onChange={(e) => setSelectedAuthor(e.target.value)}
+          className="px-2 py-1.5 text-sm border border-slate-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          {authors.map((author, index) => (
+            <option key={`${index}-${author}`} value={author}>{author}</option>
+          ))}
+        </select>
+        {selectedAuthor === record.author ? (
+          <button
+            onClick={() => onDecision({ action: 'confirm' })}
+            className="px-3 py-1.5 text-sm font-medium text-white bg-emerald-600 rounded-lg hover:bg-emerald-700 transition-colors flex items-center gap-1.5"
+          >
+            <Check className="h-4 w-4" />
+            Confirm
+          </button>
+        ) : (
+          <button
+            onClick={() => onDecision({ action: 'reassign', author: selectedAuthor })}
+            className="px-3 py-1.5 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors flex items-center gap-1.5"
+          >
+            <UserCheck className="h-4 w-4" />
+            Reassign
+          </button>
+        )}
+        <button
+          onClick={() => onDecision({ action: 'drop' })}
+          className="px-3 py-1.5 text-sm font-medium text-red-700 bg-white border border-red-200 rounded-lg hover:bg-red-50 transition-colors flex items-center gap-1.5"
+        >
+          <Trash2 className="h-4 w-4" />
+          Drop Email
+        </button>
+      </div>
+    </li>
+  );
+};
+
+export const ReviewQueue: React.FC<ReviewQueueProps> = ({ records, onDecision }) => (
+  <div className="bg-white rounded-xl shadow-sm border border-amber-200 animate-in fade-in slide-in-from-bottom-4 duration-500">
+    <div className="p-4 border-b border-amber-100 flex items-start gap-3">
+      <AlertTriangle className="h-5 w-5 text-amber-600 mt-0.5 flex-shrink-0" />
+      <div>
+        <h3 className="text-sm font-semibold text-slate-900">
+          {records.length} assignment{records.length === 1 ? '' : 's'} need review
+        </h3>
+        <p className="text-sm text-slate-500 mt-1">
+          These emails were matched by position or by a weak name signal. They are left out of the table and exports
+          until you confirm, reassign, or drop them. Decisions are remembered for the same article and email.
+        </p>
+      </div>
+    </div>
+    <ul className="divide-y divide-slate-100 max-h-[32rem] overflow-y-auto">
+      {records.slice(0, VISIBLE_ITEMS).map(record => (
+        <ReviewItem key={record.id} record={record} onDecision={decision => onDecision(record, decision)} />
+      ))}
+    </ul>
+    {records.length > VISIBLE_ITEMS && (
+      <p className="px-4 py-3 text-xs text-slate-500 border-t border-slate-100">
+        {records.length - VISIBLE_ITEMS} more waiting.
+      </p>
+    )}
+  </div>
+);
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { Check, FolderOpen, GitMerge, History, Pencil, ShieldOff, Trash2, X } from 'lucide-react';
+import { SessionSummary } from '../services/sessionStore';
+import { getParser } from '../services/parsers/registry';
+
+interface SessionHistoryProps {
+  sessions: SessionSummary[];
+  activeSessionId: string | null;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onMerge: (ids: string[]) => void;
+  onClearAll: () => void;
+}
+
+const describeSources = (session: SessionSummary) => {
+  const sources = session.source
+    ? [session.source]
+    : Array.from(new Set(session.files.map(file => file.assignedSource ?? file.detectedSource).filter(Boolean)));
+  return sources.map(source => getParser(source).name).join(', ') || 'Unknown source';
+};
+
+interface SessionRowProps {
+  session: SessionSummary;
+  isActive: boolean;
+  isSelected: boolean;
+  onToggle: () => void;
+  onOpen: () => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+}
+
+const SessionRow: React.FC<SessionRowProps> = ({ session, isActive, isSelected, onToggle, onOpen, onRename, onDelete }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    if (draft.trim() && draft.trim() !== session.name) onRename(draft.trim());
+    setDraft(null);
+  };
+
+  return (
+    <li className={`px-4 py-3 flex items-center gap-3 ${isActive ? 'bg-indigo-50/60' : ''}`}>
+      <input
+        type="checkbox"
+        checked={isSelected}
+        onChange={onToggle}
+        className="h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+        aria-label={`Select ${session.name}`}
+      />
+      <div className="min-w-0 flex-grow">
+        {draft === null ? (
+          <p className="text-sm font-medium text-slate-900 truncate">
+            {session.name}
+            {isActive && <span className="ml-2 text-xs font-medium text-indigo-600">Open</span>}
+          </p>
+        ) : (
+          <div className="flex items-center gap-1">
+            <input
+              autoFocus
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onBlur={commit}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commit();
+                if (e.key === 'Escape') setDraft(null);
+              }}
+              className="w-full px-2 py-1 text-sm border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <button onClick={commit} className="p-1 text-emerald-600 hover:bg-emerald-50 rounded-md" title="Save name">
+              <Check className="h-4 w-4" />
+            </button>
+            <button
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => setDraft(null)}
+              className="p-1 text-slate-500 hover:bg-slate-100 rounded-md"
+              title="Cancel"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+        <p className="text-xs text-slate-500 mt-0.5 truncate">
+          {new Date(session.updatedAt).toLocaleString()}
+          {` \u00b7 ${session.files.length} file${session.files.length === 1 ? '' : 's'}`}
+          {` \u00b7 ${session.recordCount} record${session.recordCount === 1 ? '' : 's'}`}
+          {` \u00b7 ${describeSources(session)}`}
+        </p>
+      </div>
+      <div className="flex items-center gap-1 flex-shrink-0">
+        <button onClick={onOpen} className="p-1.5 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-md" title="Open session">
+          <FolderOpen className="h-4 w-4" />
+        </button>
+        <button onClick={() => setDraft(session.name)} className="p-1.5 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-md" title="Rename session">
+          <Pencil className="h-4 w-4" />
+        </button>
+        <button onClick={onDelete} className="p-1.5 text-slate-500 hover:text-red-600 hover:bg-red-50 rounded-md" title="Delete session">
+          <Trash2 className="h-4 w-4" />
+        </button>
+      </div>
+    </li>
+  );
+};
+
+// Past uploads saved in this browser. Selecting two or more enables merging them into a new session.
+export const SessionHistory: React.FC<SessionHistoryProps> = ({
+  sessions,
+  activeSessionId,
+  onOpen,
+  onRename,
+  onDelete,
+  onMerge,
+  onClearAll
+}) => {
+  const [selected, setSelected] = useState<string[]>([]);
+  // Sessions deleted elsewhere drop out of the selection.
+  const selectedIds = selected.filter(id => sessions.some(session => session.id === id));
+
+  const toggle = (id: string) =>
+    setSelected(current => (current.includes(id) ? current.filter(entry => entry !== id) : [...current, id]));
+
+  return (
+    <div className="mt-6 bg-white rounded-xl shadow-sm border border-slate-200">
+      <div className="p-4 border-b border-slate-100 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <History className="h-5 w-5 text-slate-500" />
+          <h3 className="text-sm font-semibold text-slate-900">Saved Sessions</h3>
+          <span className="text-xs text-slate-500">Stored only in this browser</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => {
+              onMerge(selectedIds);
+              setSelected([]);
+            }}
+            disabled={selectedIds.length < 2}
+            className="px-3 py-1.5 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors flex items-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <GitMerge className="h-4 w-4" />
+            Merge{selectedIds.length > 1 ? ` (${selectedIds.length})` : ''}
+          </button>
+          <button
+            onClick={onClearAll}
+            className="px-3 py-1.5 text-sm font-medium text-red-700 bg-white border border-red-200 rounded-lg hover:bg-red-50 transition-colors flex items-center gap-1.5"
+          >
+            <ShieldOff className="h-4 w-4" />
+            Clear All Local Data
+          </button>
+        </div>
+      </div>
+      <ul className="divide-y divide-slate-100 max-h-80 overflow-y-auto">
+        {sessions.map(session => (
+          <SessionRow
+            key={session.id}
+            session={session}
+            isActive={session.id === activeSessionId}
+            isSelected={selectedIds.includes(session.id)}
+            onToggle={() => toggle(session.id)}
+            onOpen={() => onOpen(session.id)}
+            onRename={name => onRename(session.id, name)}
+            onDelete={() => onDelete(session.id)}
+          />
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import express from "express";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
+import { createExtractionApi } from "./dist-node/extractionApi.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -9,6 +10,26 @@ const app = express();
 const port = process.env.PORT || 3000;
 const distPath = path.join(__dirname, "dist");
 
+const readNumber = (value, fallback) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+app.use(
+  "/api",
+  createExtractionApi({
+    apiKeys: (process.env.BIOPARSER_API_KEYS || "").split(",").map(key => key.trim()),
+    maxBytes: readNumber(process.env.BIOPARSER_API_MAX_MB, 50) * 1024 * 1024,
+    timeoutMs: readNumber(process.env.BIOPARSER_API_TIMEOUT_MS, 60000),
+    jobs: {
+      directory: process.env.BIOPARSER_JOBS_DIR || path.join(__dirname, "data", "jobs"),
+      retentionDays: readNumber(process.env.BIOPARSER_JOB_RETENTION_DAYS, 7),
+      timeoutMs: readNumber(process.env.BIOPARSER_JOB_TIMEOUT_MS, 30 * 60 * 1000),
+      maxBytes: readNumber(process.env.BIOPARSER_JOB_MAX_MB, 500) * 1024 * 1024
+    }
+  })
+);
+
 app.use(express.static(distPath));
 
 app.get("*", (req, res) => {
@@ -0,0 +1,30 @@
+export type ApiErrorCode =
+  | 'API_DISABLED'
+  | 'UNAUTHORIZED'
+  | 'NOT_FOUND'
+  | 'INVALID_BODY'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'NO_INPUT'
+  | 'INVALID_PARAMETER'
+  | 'UNKNOWN_SOURCE'
+  | 'UNDETECTED_FORMAT'
+  | 'PARSE_FAILED'
+  | 'TIMEOUT'
+  | 'JOB_NOT_FOUND'
+  | 'JOB_NOT_FINISHED'
+  | 'JOB_FAILED'
+  | 'INTERNAL';
+
+export interface ApiErrorBody {
+  code: ApiErrorCode;
+  message: string;
+  file?: string;
+  // The underlying reason when the parser only reports a generic failure.
+  detail?: string;
+}
+
+export class ApiError extends Error {
+  constructor(readonly status: number, readonly body: ApiErrorBody) {
+    super(body.message);
+  }
+}
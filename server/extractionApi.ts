@@ -0,0 +1,272 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { DataSourceType } from '../types';
+import { buildCSV, uniqueByEmail } from '../services/exportService';
+import { mergeArticles } from '../services/articleMerge';
+import { findParserByKey, getSourceKey, listParsers } from '../services/parsers/registry';
+import { ApiError, ApiErrorBody } from './apiErrors';
+import { ExtractionInputFile, ExtractionResult, runExtraction } from './extractionRunner';
+import { Job, JobQueue, JobQueueOptions, createJobQueue } from './jobQueue';
+
+export interface ExtractionApiOptions {
+  // An empty list disables the API instead of leaving it open.
+  apiKeys: string[];
+  maxBytes: number;
+  timeoutMs: number;
+  jobs: JobQueueOptions & { maxBytes: number };
+}
+
+const sendError = (res: Response, status: number, body: ApiErrorBody) => {
+  res.status(status).json({ error: body });
+};
+
+// The errors express.raw() raises for a body it cannot read, e.g. one over the size limit.
+interface BodyParserError extends Error {
+  status?: number;
+  type?: string;
+  limit?: number;
+}
+
+const isBodyParserError = (error: unknown): error is BodyParserError =>
+  error instanceof Error && ('status' in error || 'type' in error);
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+const readApiKey = (req: Request): string | null => {
+  const authorization = req.get('authorization');
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+  return bearer ?? req.get('x-api-key') ?? null;
+};
+
+const resolveSource = (value: unknown): DataSourceType | null => {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string') {
+    throw new ApiError(400, { code: 'INVALID_PARAMETER', message: 'The "source" parameter must be a single value.' });
+  }
+  if (value.toLowerCase() === 'auto') return null;
+
+  const parser = findParserByKey(value);
+  if (!parser) {
+    throw new ApiError(400, {
+      code: 'UNKNOWN_SOURCE',
+      message: `Unknown source "${value}". Expected one of: ${listParsers().map(p => getSourceKey(p.id)).join(', ')}.`
+    });
+  }
+  return parser.id;
+};
+
+const readOption = (req: Request, name: string, allowed: string[], fallback: string) => {
+  const value = req.query[name] ?? fallback;
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    throw new ApiError(400, {
+      code: 'INVALID_PARAMETER',
+      message: `The "${name}" parameter must be one of: ${allowed.join(', ')}.`
+    });
+  }
+  return value;
+};
+
+// Multipart uploads are decoded with the fetch API's FormData parser, which Node ships
+// built in, so the server needs no extra upload middleware.
+const readInputs = async (req: Request) => {
+  const body: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+  const contentType = req.get('content-type') ?? '';
+
+  if (/^multipart\/form-data/i.test(contentType)) {
+    let form: FormData;
+    try {
+      // The fetch API's Request, which express's Request type shadows here.
+      form = await new globalThis.Request('http://localhost/', {
+        method: 'POST',
+        headers: { 'content-type': contentType },
+        body
+      }).formData();
+    } catch {
+      throw new ApiError(400, { code: 'INVALID_BODY', message: 'The multipart body could not be decoded.' });
+    }
+
+    const files: Required<Pick<ExtractionInputFile, 'name' | 'data'>>[] = [];
+    for (const value of form.values()) {
+      if (typeof value === 'string') continue;
+      files.push({ name: value.name || 'upload', data: new Uint8Array(await value.arrayBuffer()) });
+    }
+    return { files, sourceField: form.get('source') ?? undefined };
+  }
+
+  if (body.length === 0) return { files: [], sourceField: undefined };
+  const name = req.query.filename ?? req.get('x-file-name') ?? 'upload';
+  // Copy out of the request buffer so the worker can take ownership of it.
+  return { files: [{ name: String(name), data: new Uint8Array(body) }], sourceField: undefined };
+};
+
+const readInputsOrFail = async (req: Request) => {
+  const inputs = await readInputs(req);
+  if (inputs.files.length === 0) {
+    throw new ApiError(400, {
+      code: 'NO_INPUT',
+      message: 'Send the export as the request body or as one or more multipart file fields.'
+    });
+  }
+  return { files: inputs.files, source: resolveSource(req.query.source ?? inputs.sourceField) };
+};
+
+const sendResult = (req: Request, res: Response, result: ExtractionResult) => {
+  const view = readOption(req, 'view', ['raw', 'unique'], 'raw');
+  const wantsCsv = req.query.format === undefined && /\btext\/csv\b/.test(req.get('accept') ?? '');
+  const format = readOption(req, 'format', ['json', 'csv'], wantsCsv ? 'csv' : 'json');
+  const records = view === 'unique' ? uniqueByEmail(mergeArticles(result.records)) : result.records;
+
+  if (format === 'csv') {
+    res.type('text/csv; charset=utf-8').send(buildCSV(records));
+    return;
+  }
+
+  res.json({
+    records,
+    totalProcessed: result.files.reduce((sum, file) => sum + file.totalProcessed, 0),
+    files: result.files
+  });
+};
+
+const describeJob = (job: Job, jobs: JobQueue) => {
+  const { owner, ...visible } = job;
+  return {
+    ...visible,
+    expiresAt: jobs.expiresAt(job),
+    progress: {
+      bytesRead: job.files.reduce((sum, file) => sum + file.bytesRead, 0),
+      totalBytes: job.files.reduce((sum, file) => sum + file.totalBytes, 0),
+      recordsFound: job.files.reduce((sum, file) => sum + file.recordsFound, 0)
+    }
+  };
+};
+
+export const createExtractionApi = ({ apiKeys, maxBytes, timeoutMs, jobs: jobOptions }: ExtractionApiOptions) => {
+  const router = express.Router();
+  const keyDigests = apiKeys.filter(Boolean).map(digest);
+  // Only touch the jobs directory when the API can actually be used.
+  const jobs = keyDigests.length > 0 ? createJobQueue(jobOptions) : null;
+
+  router.use((req: Request, res: Response, next: NextFunction) => {
+    if (keyDigests.length === 0) {
+      sendError(res, 503, {
+        code: 'API_DISABLED',
+        message: 'The extraction API is disabled. Set BIOPARSER_API_KEYS to enable it.'
+      });
+      return;
+    }
+
+    const provided = readApiKey(req);
+    const providedDigest = provided ? digest(provided) : null;
+    if (!providedDigest || !keyDigests.some(key => timingSafeEqual(key, providedDigest))) {
+      sendError(res, 401, {
+        code: 'UNAUTHORIZED',
+        message: 'Missing or invalid API key. Send it as "Authorization: Bearer <key>" or "X-API-Key".'
+      });
+      return;
+    }
+
+    res.locals.owner = providedDigest.toString('hex');
+    next();
+  });
+
+  router.get('/sources', (req: Request, res: Response) => {
+    res.json({
+      sources: listParsers().map(parser => ({
+        key: getSourceKey(parser.id),
+        id: parser.id,
+        name: parser.name,
+        description: parser.description,
+        format: parser.ui.formatLabel,
+        acceptTypes: parser.ui.acceptTypes
+      }))
+    });
+  });
+
+  router.post(
+    '/extract',
+    express.raw({ type: () => true, limit: maxBytes }),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        // Validate the output options before spending time on the extraction.
+        readOption(req, 'view', ['raw', 'unique'], 'raw');
+        readOption(req, 'format', ['json', 'csv'], 'json');
+        const { files, source } = await readInputsOrFail(req);
+        sendResult(req, res, await runExtraction({ files, source }, timeoutMs));
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.post(
+    '/jobs',
+    express.raw({ type: () => true, limit: jobOptions.maxBytes }),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { files, source } = await readInputsOrFail(req);
+        const job = await jobs!.create(res.locals.owner, source, files);
+        res.status(202).location(`${req.baseUrl}/jobs/${job.id}`).json({ job: describeJob(job, jobs!) });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.get('/jobs/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const job = await jobs!.get(req.params.id, res.locals.owner);
+      res.json({ job: describeJob(job, jobs!) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.get('/jobs/:id/result', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      sendResult(req, res, await jobs!.readResult(req.params.id, res.locals.owner));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.delete('/jobs/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await jobs!.remove(req.params.id, res.locals.owner);
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.use((req: Request, res: Response) => {
+    sendError(res, 404, { code: 'NOT_FOUND', message: `No API route for ${req.method} ${req.path}.` });
+  });
+
+  // Express recognises error handlers by their four parameters.
+  router.use((error: unknown, req: Request, res: Response, next: NextFunction) => {
+    if (res.headersSent) {
+      next(error);
+      return;
+    }
+    if (error instanceof ApiError) {
+      sendError(res, error.status, error.body);
+      return;
+    }
+    if (isBodyParserError(error) && error.type === 'entity.too.large') {
+      sendError(res, 413, {
+        code: 'PAYLOAD_TOO_LARGE',
+        message: `The request body exceeds the ${Math.round((error.limit ?? maxBytes) / (1024 * 1024))} MB limit.`
+      });
+      return;
+    }
+    if (isBodyParserError(error) && typeof error.status === 'number' && error.status < 500) {
+      sendError(res, error.status, { code: 'INVALID_BODY', message: error.message });
+      return;
+    }
+    console.error(error);
+    sendError(res, 500, { code: 'INTERNAL', message: 'The server failed to process the request.' });
+  });
+
+  return router;
+};
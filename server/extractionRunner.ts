@@ -0,0 +1,88 @@
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Worker } from 'node:worker_threads';
+import { DataSourceType, ExtractedRecord, FileParseProgress } from '../types';
+import { ApiError, ApiErrorBody } from './apiErrors';
+
+// One per parsed input: an uploaded file, or each entry of an uploaded archive.
+export interface ExtractionFileSummary {
+  fileName: string;
+  fileIndex: number; // The upload it came from
+  source: DataSourceType;
+  detectedSource: DataSourceType | null;
+  recordsFound: number;
+  totalProcessed: number;
+}
+
+// Request bodies are handed over in memory; job uploads are read back from disk by path.
+export interface ExtractionInputFile {
+  name: string;
+  data?: Uint8Array;
+  path?: string;
+}
+
+export interface ExtractionWorkerRequest {
+  files: ExtractionInputFile[];
+  source: DataSourceType | null;
+}
+
+export interface ExtractionResult {
+  records: ExtractedRecord[];
+  files: ExtractionFileSummary[];
+}
+
+export type ExtractionWorkerMessage =
+  | { type: 'progress'; fileIndex: number; progress: FileParseProgress }
+  | ({ type: 'done' } & ExtractionResult)
+  | { type: 'error'; status: number; fileIndex: number; error: ApiErrorBody };
+
+const WORKER_PATH = path.join(path.dirname(fileURLToPath(import.meta.url)), 'extractionWorker.js');
+
+// Each run gets its own worker thread so a timeout can actually stop a parser that is
+// stuck in a synchronous loop, the same reason the browser parses in a Web Worker.
+export const runExtraction = (
+  request: ExtractionWorkerRequest,
+  timeoutMs: number,
+  onProgress?: (fileIndex: number, progress: FileParseProgress) => void
+) =>
+  new Promise<ExtractionResult>((resolve, reject) => {
+    const worker = new Worker(WORKER_PATH);
+    const timer = setTimeout(() => {
+      worker.terminate();
+      reject(
+        new ApiError(504, {
+          code: 'TIMEOUT',
+          message: `Extraction did not finish within ${timeoutMs} ms.`
+        })
+      );
+    }, timeoutMs);
+
+    const finish = () => {
+      clearTimeout(timer);
+      worker.terminate();
+    };
+
+    worker.on('message', (message: ExtractionWorkerMessage) => {
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.fileIndex, message.progress);
+          break;
+        case 'done':
+          finish();
+          resolve({ records: message.records, files: message.files });
+          break;
+        case 'error':
+          finish();
+          reject(new ApiError(message.status, message.error));
+          break;
+      }
+    });
+
+    worker.on('error', error => {
+      finish();
+      reject(new ApiError(500, { code: 'INTERNAL', message: 'The extraction worker crashed.', detail: error.message }));
+    });
+
+    const transfer = request.files.flatMap(file => (file.data ? [file.data.buffer as ArrayBuffer] : []));
+    worker.postMessage(request, transfer);
+  });
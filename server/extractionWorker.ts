@@ -0,0 +1,89 @@
+import { openAsBlob } from 'node:fs';
+import { parentPort } from 'node:worker_threads';
+import { ExtractedRecord, FileParseProgress } from '../types';
+import { UnknownFormatError, listParseInputs, parseFile } from '../services/fileParser';
+import type { ExtractionFileSummary, ExtractionWorkerMessage, ExtractionWorkerRequest } from './extractionRunner';
+
+const post = (message: ExtractionWorkerMessage) => parentPort!.postMessage(message);
+
+// Matches the browser worker: progress on every chunk would flood the parent thread.
+const PROGRESS_INTERVAL_BYTES = 1024 * 1024;
+
+parentPort!.once('message', async ({ files, source }: ExtractionWorkerRequest) => {
+  const records: ExtractedRecord[] = [];
+  const summaries: ExtractionFileSummary[] = [];
+
+  for (let fileIndex = 0; fileIndex < files.length; fileIndex += 1) {
+    const file = files[fileIndex];
+    let currentName = file.name;
+    try {
+      const blob = file.path ? ((await openAsBlob(file.path)) as unknown as Blob) : new Blob([file.data!]);
+      const progress: FileParseProgress = {
+        fileName: file.name,
+        status: 'reading',
+        bytesRead: 0,
+        totalBytes: blob.size,
+        recordsFound: 0
+      };
+      const report = () => post({ type: 'progress', fileIndex, progress: { ...progress } });
+      report();
+
+      // Archive entries no parser accepts (figures, PDFs) are left out rather than failing the request.
+      const inputs = (await listParseInputs(blob, file.name)).filter(input => !input.rejection);
+      for (const input of inputs) {
+        currentName = input.name;
+        const inputBlob = await input.open();
+        const foundBefore = progress.recordsFound;
+        let lastReported = 0;
+        const { detectedSource, totalProcessed } = await parseFile(inputBlob, input.name, source, {
+          onBytesRead: bytesRead => {
+            // An archive entry counts uncompressed bytes, so only a plain upload moves the byte total.
+            if (input.name === file.name) progress.bytesRead = bytesRead;
+            if (bytesRead - lastReported >= PROGRESS_INTERVAL_BYTES) {
+              lastReported = bytesRead;
+              report();
+            }
+          },
+          onParsing: () => {
+            progress.status = 'parsing';
+            report();
+          },
+          onRecords: batch => {
+            progress.recordsFound += batch.length;
+            records.push(...batch);
+          }
+        });
+
+        summaries.push({
+          fileName: input.name,
+          fileIndex,
+          source: source ?? detectedSource!,
+          detectedSource,
+          recordsFound: progress.recordsFound - foundBefore,
+          totalProcessed
+        });
+      }
+
+      progress.status = 'done';
+      progress.bytesRead = blob.size;
+      report();
+    } catch (error) {
+      const failure = error instanceof Error ? error : new Error(String(error));
+      const cause = failure.cause instanceof Error ? failure.cause.message : undefined;
+      post({
+        type: 'error',
+        status: 422,
+        fileIndex,
+        error: {
+          code: error instanceof UnknownFormatError ? 'UNDETECTED_FORMAT' : 'PARSE_FAILED',
+          message: failure.message,
+          file: currentName,
+          ...(cause && cause !== failure.message ? { detail: cause } : {})
+        }
+      });
+      return;
+    }
+  }
+
+  post({ type: 'done', records, files: summaries });
+});
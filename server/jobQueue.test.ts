@@ -0,0 +1,114 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DataSourceType } from '../types';
+import { ExtractionResult, ExtractionWorkerRequest } from './extractionRunner';
+import { Job, createJobQueue } from './jobQueue';
+
+// The real runner starts the bundled worker thread; the queue only needs its result.
+const runExtraction = vi.hoisted(() => vi.fn());
+vi.mock('./extractionRunner', () => ({ runExtraction }));
+
+const OWNER = 'a'.repeat(64);
+
+const resultFor = (request: ExtractionWorkerRequest): ExtractionResult => ({
+  records: [{
+    id: 'row-1',
+    title: 'An article',
+    author: 'Jane Smith',
+    email: 'jane.smith@uni.edu',
+    source: 'PubMed',
+    confidence: 90,
+    matchReason: 'surname in local part'
+  }],
+  files: request.files.map((file, fileIndex) => ({
+    fileName: file.name,
+    fileIndex,
+    source: DataSourceType.PUBMED,
+    detectedSource: DataSourceType.PUBMED,
+    recordsFound: 1,
+    totalProcessed: 1
+  }))
+});
+
+// job.json is written last, once a finished job's inputs are gone, so it marks the end of the run.
+const waitUntilSaved = async (directory: string, id: string, status: Job['status']) => {
+  for (let attempt = 0; attempt < 100; attempt += 1) {
+    const saved: Job | null = await readFile(path.join(directory, id, 'job.json'), 'utf8')
+      .then(text => JSON.parse(text))
+      .catch(() => null);
+    if (saved?.status === status && saved.finishedAt) return saved;
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  throw new Error(`Job ${id} was never saved as "${status}".`);
+};
+
+describe('createJobQueue', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'bioparser-jobs-'));
+    runExtraction.mockReset();
+    runExtraction.mockImplementation(async (request: ExtractionWorkerRequest) => resultFor(request));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('runs a submitted job and keeps its result', async () => {
+    const queue = createJobQueue({ directory, retentionDays: 1, timeoutMs: 1000 });
+    const created = await queue.create(OWNER, null, [{ name: 'pubmed.txt', data: new TextEncoder().encode('PMID- 1') }]);
+
+    await waitUntilSaved(directory, created.id, 'done');
+    const job = await queue.get(created.id, OWNER);
+    expect(job.files[0]).toMatchObject({ fileName: 'pubmed.txt', detectedSource: DataSourceType.PUBMED, totalProcessed: 1 });
+    expect(queue.expiresAt(job)).not.toBeNull();
+
+    const result = await queue.readResult(created.id, OWNER);
+    expect(result.records.map(record => record.email)).toEqual(['jane.smith@uni.edu']);
+    // Inputs go as soon as the job finishes.
+    await expect(readFile(path.join(directory, created.id, 'input', '0'))).rejects.toThrow();
+  });
+
+  it('hides jobs from other API keys', async () => {
+    const queue = createJobQueue({ directory, retentionDays: 1, timeoutMs: 1000 });
+    const created = await queue.create(OWNER, null, [{ name: 'pubmed.txt', data: new Uint8Array([0x61]) }]);
+    await waitUntilSaved(directory, created.id, 'done');
+    await expect(queue.get(created.id, 'b'.repeat(64))).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('queues a job that was running when the server stopped again on restart', async () => {
+    const id = '0b6e4a52-3c1f-4d8e-9a7b-5f2c1d0e9a8b';
+    const interrupted: Job = {
+      id,
+      owner: OWNER,
+      status: 'running',
+      source: null,
+      createdAt: '2026-01-01T00:00:00.000Z',
+      startedAt: '2026-01-01T00:00:01.000Z',
+      finishedAt: null,
+      files: [{
+        fileName: 'pubmed.txt',
+        status: 'parsing',
+        bytesRead: 3,
+        totalBytes: 7,
+        recordsFound: 2,
+        detectedSource: null,
+        totalProcessed: null
+      }],
+      error: null
+    };
+    await mkdir(path.join(directory, id, 'input'), { recursive: true });
+    await writeFile(path.join(directory, id, 'input', '0'), 'PMID- 1');
+    await writeFile(path.join(directory, id, 'job.json'), JSON.stringify(interrupted));
+
+    const queue = createJobQueue({ directory, retentionDays: 1, timeoutMs: 1000 });
+    await waitUntilSaved(directory, id, 'done');
+    const job = await queue.get(id, OWNER);
+    expect(runExtraction).toHaveBeenCalledTimes(1);
+    expect(runExtraction.mock.calls[0][0].files).toEqual([{ name: 'pubmed.txt', path: path.join(directory, id, 'input', '0') }]);
+    expect(job.startedAt).not.toBe(interrupted.startedAt);
+  });
+});
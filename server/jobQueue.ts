@@ -0,0 +1,268 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { DataSourceType, FileParseProgress } from '../types';
+import { ApiError, ApiErrorBody } from './apiErrors';
+import { ExtractionResult, runExtraction } from './extractionRunner';
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface JobFile {
+  fileName: string;
+  status: FileParseProgress['status'] | 'failed';
+  bytesRead: number;
+  totalBytes: number;
+  recordsFound: number;
+  detectedSource: DataSourceType | null;
+  totalProcessed: number | null;
+}
+
+export interface Job {
+  id: string;
+  // SHA-256 of the API key that created the job; other keys cannot see it.
+  owner: string;
+  status: JobStatus;
+  source: DataSourceType | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  files: JobFile[];
+  error: ApiErrorBody | null;
+}
+
+export interface JobQueueOptions {
+  directory: string;
+  // Finished jobs (results and metadata) are deleted this many days after they finish.
+  retentionDays: number;
+  timeoutMs: number;
+}
+
+const JOB_ID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+// Progress is kept in memory and only flushed to disk this often while a job runs.
+const SAVE_INTERVAL_MS = 2000;
+
+const writeJson = async (filePath: string, value: unknown) => {
+  const temporaryPath = `${filePath}.tmp`;
+  await writeFile(temporaryPath, JSON.stringify(value), 'utf8');
+  await rename(temporaryPath, filePath);
+};
+
+const isFinished = (job: Job) => job.status === 'done' || job.status === 'failed';
+
+// Jobs run one at a time in a worker thread. Inputs are deleted as soon as a job finishes, and
+// job.json plus result.json are purged once the retention period has passed.
+export const createJobQueue = ({ directory, retentionDays, timeoutMs }: JobQueueOptions) => {
+  const jobs = new Map<string, Job>();
+  let pumping = false;
+
+  const jobDirectory = (id: string) => path.join(directory, id);
+  const inputPath = (id: string, index: number) => path.join(jobDirectory(id), 'input', String(index));
+  const resultPath = (id: string) => path.join(jobDirectory(id), 'result.json');
+
+  const saveJob = async (job: Job) => {
+    // A job deleted while it was running must not be written back to disk.
+    if (jobs.get(job.id) !== job) return;
+    await writeJson(path.join(jobDirectory(job.id), 'job.json'), job).catch(error => {
+      console.error(`Failed to save job ${job.id}`, error);
+    });
+  };
+
+  const expiresAt = (job: Job) =>
+    job.finishedAt ? new Date(Date.parse(job.finishedAt) + retentionDays * DAY_MS).toISOString() : null;
+
+  const purgeExpired = async () => {
+    const now = Date.now();
+    for (const job of Array.from(jobs.values())) {
+      const expiry = expiresAt(job);
+      if (expiry && Date.parse(expiry) <= now) {
+        jobs.delete(job.id);
+        // Runs on a timer, so a failure is logged rather than left as an unhandled rejection.
+        await rm(jobDirectory(job.id), { recursive: true, force: true }).catch(error => {
+          console.error(`Failed to delete expired job ${job.id}`, error);
+        });
+      }
+    }
+  };
+
+  const runJob = async (job: Job) => {
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    await saveJob(job);
+
+    let lastSaved = Date.now();
+    try {
+      const result = await runExtraction(
+        {
+          files: job.files.map((file, index) => ({ name: file.fileName, path: inputPath(job.id, index) })),
+          source: job.source
+        },
+        timeoutMs,
+        (fileIndex, progress) => {
+          Object.assign(job.files[fileIndex], {
+            status: progress.status,
+            bytesRead: progress.bytesRead,
+            totalBytes: progress.totalBytes,
+            recordsFound: progress.recordsFound
+          });
+          if (Date.now() - lastSaved >= SAVE_INTERVAL_MS) {
+            lastSaved = Date.now();
+            void saveJob(job);
+          }
+        }
+      );
+
+      job.files.forEach((file, index) => {
+        const summaries = result.files.filter(summary => summary.fileIndex === index);
+        file.detectedSource = summaries[0]?.detectedSource ?? null;
+        file.totalProcessed = summaries.reduce((sum, summary) => sum + summary.totalProcessed, 0);
+      });
+      if (jobs.get(job.id) === job) {
+        await writeJson(resultPath(job.id), result);
+      }
+      job.status = 'done';
+    } catch (error) {
+      job.status = 'failed';
+      job.error = error instanceof ApiError
+        ? error.body
+        : { code: 'INTERNAL', message: 'The job failed unexpectedly.' };
+      const failedFile = job.files.find(file => file.status !== 'done');
+      if (failedFile) failedFile.status = 'failed';
+    }
+
+    job.finishedAt = new Date().toISOString();
+    // pump() runs unawaited, so a failure here must not reject, and the job must still be saved as finished.
+    await rm(path.join(jobDirectory(job.id), 'input'), { recursive: true, force: true }).catch(error => {
+      console.error(`Failed to delete the inputs of job ${job.id}`, error);
+    });
+    await saveJob(job);
+  };
+
+  const pump = async () => {
+    if (pumping) return;
+    pumping = true;
+    try {
+      for (;;) {
+        const next = Array.from(jobs.values())
+          .filter(job => job.status === 'queued')
+          .sort((a, b) => a.createdAt.localeCompare(b.createdAt))[0];
+        if (!next) break;
+        await runJob(next);
+      }
+    } finally {
+      pumping = false;
+    }
+  };
+
+  // Jobs interrupted by a restart are queued again from their saved inputs.
+  const load = async () => {
+    await mkdir(directory, { recursive: true });
+    for (const entry of await readdir(directory, { withFileTypes: true })) {
+      if (!entry.isDirectory() || !JOB_ID_REGEX.test(entry.name)) continue;
+      try {
+        const job: Job = JSON.parse(await readFile(path.join(jobDirectory(entry.name), 'job.json'), 'utf8'));
+        if (job.status === 'running') {
+          job.status = 'queued';
+          job.startedAt = null;
+          job.files.forEach(file => Object.assign(file, { status: 'pending', bytesRead: 0, recordsFound: 0 }));
+        }
+        jobs.set(job.id, job);
+      } catch (error) {
+        console.error(`Skipping unreadable job ${entry.name}`, error);
+      }
+    }
+    await purgeExpired();
+    setInterval(() => void purgeExpired(), PURGE_INTERVAL_MS).unref();
+    void pump();
+  };
+
+  // Handled as soon as loading starts: a rejection left until the first request awaits it would
+  // crash the process. Every job request fails with the stored error instead.
+  const loading = load().then(
+    () => null,
+    (error: unknown) => {
+      console.error(`Failed to load jobs from ${directory}`, error);
+      return new ApiError(500, {
+        code: 'INTERNAL',
+        message: 'The job store could not be opened.',
+        ...(error instanceof Error ? { detail: error.message } : {})
+      });
+    }
+  );
+
+  const ready = async () => {
+    const failure = await loading;
+    if (failure) throw failure;
+  };
+
+  const findJob = async (id: string, owner: string) => {
+    await ready();
+    const job = JOB_ID_REGEX.test(id) ? jobs.get(id) : undefined;
+    if (!job || job.owner !== owner) {
+      throw new ApiError(404, { code: 'JOB_NOT_FOUND', message: `No job with id "${id}".` });
+    }
+    return job;
+  };
+
+  return {
+    expiresAt,
+
+    create: async (owner: string, source: DataSourceType | null, files: { name: string; data: Uint8Array }[]) => {
+      await ready();
+      const id = randomUUID();
+      await mkdir(path.join(jobDirectory(id), 'input'), { recursive: true });
+      await Promise.all(files.map((file, index) => writeFile(inputPath(id, index), file.data)));
+
+      const job: Job = {
+        id,
+        owner,
+        status: 'queued',
+        source,
+        createdAt: new Date().toISOString(),
+        startedAt: null,
+        finishedAt: null,
+        files: files.map(file => ({
+          fileName: file.name,
+          status: 'pending',
+          bytesRead: 0,
+          totalBytes: file.data.byteLength,
+          recordsFound: 0,
+          detectedSource: null,
+          totalProcessed: null
+        })),
+        error: null
+      };
+      jobs.set(id, job);
+      await saveJob(job);
+      void pump();
+      return job;
+    },
+
+    get: findJob,
+
+    readResult: async (id: string, owner: string): Promise<ExtractionResult> => {
+      const job = await findJob(id, owner);
+      if (job.status === 'failed') {
+        throw new ApiError(409, {
+          code: 'JOB_FAILED',
+          message: `Job ${id} failed: ${job.error?.message ?? 'unknown error'}`,
+          file: job.error?.file,
+          detail: job.error?.detail
+        });
+      }
+      if (!isFinished(job)) {
+        throw new ApiError(409, { code: 'JOB_NOT_FINISHED', message: `Job ${id} is still ${job.status}.` });
+      }
+      return JSON.parse(await readFile(resultPath(id), 'utf8'));
+    },
+
+    remove: async (id: string, owner: string) => {
+      const job = await findJob(id, owner);
+      jobs.delete(job.id);
+      await rm(jobDirectory(job.id), { recursive: true, force: true });
+    }
+  };
+};
+
+export type JobQueue = ReturnType<typeof createJobQueue>;
@@ -0,0 +1,202 @@
+import { deflateRawSync, gzipSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { ArchiveEntry, readArchiveEntries } from './archiveReader';
+import { listParseInputs } from './fileParser';
+
+const encoder = new TextEncoder();
+
+const concat = (parts: Uint8Array[]) => {
+  const bytes = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+};
+
+interface ZipEntry {
+  path: string;
+  contents: string | Uint8Array;
+  method?: 0 | 8 | 12;
+  flags?: number;
+  zip64?: boolean; // Sizes and offset moved to the ZIP64 extra field
+}
+
+// A minimal ZIP writer: local headers, central directory and end record. CRCs are left at zero
+// because the reader does not check them.
+const buildZip = (entries: ZipEntry[]) => {
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const raw = typeof entry.contents === 'string' ? encoder.encode(entry.contents) : entry.contents;
+    const method = entry.method ?? 0;
+    const data = method === 8 ? new Uint8Array(deflateRawSync(raw)) : raw;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(6, entry.flags ?? 0, true);
+    local.setUint16(8, method, true);
+    local.setUint16(26, name.length, true);
+    locals.push(new Uint8Array(local.buffer), name, data);
+
+    const extra = new DataView(new ArrayBuffer(entry.zip64 ? 28 : 0));
+    if (entry.zip64) {
+      extra.setUint16(0, 0x0001, true);
+      extra.setUint16(2, 24, true);
+      extra.setBigUint64(4, BigInt(raw.length), true);
+      extra.setBigUint64(12, BigInt(data.length), true);
+      extra.setBigUint64(20, BigInt(offset), true);
+    }
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(8, entry.flags ?? 0, true);
+    central.setUint16(10, method, true);
+    central.setUint32(20, entry.zip64 ? 0xffffffff : data.length, true);
+    central.setUint32(24, entry.zip64 ? 0xffffffff : raw.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint16(30, extra.byteLength, true);
+    central.setUint32(42, entry.zip64 ? 0xffffffff : offset, true);
+    centrals.push(new Uint8Array(central.buffer), name, new Uint8Array(extra.buffer));
+
+    offset += 30 + name.length + data.length;
+  }
+
+  const directory = concat(centrals);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, directory.length, true);
+  end.setUint32(16, offset, true);
+  return concat([...locals, directory, new Uint8Array(end.buffer)]);
+};
+
+const tarHeader = (path: string, size: number, type: string) => {
+  const header = new Uint8Array(512);
+  header.set(encoder.encode(path.slice(0, 100)), 0);
+  header.set(encoder.encode(`${size.toString(8).padStart(11, '0')}\0`), 124);
+  header[156] = type.charCodeAt(0);
+  header.set(encoder.encode('ustar\u000000'), 257);
+  return header;
+};
+
+const tarBody = (data: Uint8Array) => concat([data, new Uint8Array((512 - (data.length % 512)) % 512)]);
+
+// Paths over 100 characters get a pax header, as GNU and bsdtar write them.
+const buildTar = (entries: { path: string; contents: string }[]) =>
+  concat([
+    ...entries.flatMap(entry => {
+      const data = encoder.encode(entry.contents);
+      const parts: Uint8Array[] = [];
+      if (entry.path.length > 100) {
+        // A pax record starts with its own length, digits included.
+        const record = ` path=${entry.path}\n`;
+        const pax = encoder.encode(`${record.length + String(record.length + 3).length}${record}`);
+        parts.push(tarHeader('PaxHeader', pax.length, 'x'), tarBody(pax));
+      }
+      parts.push(tarHeader(entry.path, data.length, '0'), tarBody(data));
+      return parts;
+    }),
+    new Uint8Array(1024)
+  ]);
+
+const blobOf = (bytes: Uint8Array) => new Blob([bytes]);
+
+const readTexts = async (entries: ArchiveEntry[]) =>
+  Promise.all(entries.map(async entry => [entry.path, await (await entry.open()).text()]));
+
+describe('readArchiveEntries', () => {
+  it('returns null for a file that is not an archive', async () => {
+    expect(await readArchiveEntries(blobOf(encoder.encode('PMID- 1\n')), 'pubmed.zip')).toBeNull();
+  });
+
+  it('reads stored and deflated ZIP entries and leaves out folders and metadata', async () => {
+    const zip = buildZip([
+      { path: 'exports/', contents: '' },
+      { path: 'exports/pubmed.txt', contents: 'PMID- 1\n' },
+      { path: 'exports/scopus.csv', contents: 'Title,Authors\n'.repeat(20), method: 8 },
+      { path: '__MACOSX/exports/._pubmed.txt', contents: 'resource fork' },
+      { path: 'exports/.DS_Store', contents: 'finder' }
+    ]);
+    const entries = await readArchiveEntries(blobOf(zip), 'exports.zip');
+    expect(await readTexts(entries!)).toEqual([
+      ['exports/pubmed.txt', 'PMID- 1\n'],
+      ['exports/scopus.csv', 'Title,Authors\n'.repeat(20)]
+    ]);
+  });
+
+  it('reads sizes and offsets from the ZIP64 extra field', async () => {
+    const zip = buildZip([
+      { path: 'first.txt', contents: 'first' },
+      { path: 'second.xml', contents: '<PubmedArticleSet/>', method: 8, zip64: true }
+    ]);
+    expect(await readTexts((await readArchiveEntries(blobOf(zip), 'large.zip'))!)).toEqual([
+      ['first.txt', 'first'],
+      ['second.xml', '<PubmedArticleSet/>']
+    ]);
+  });
+
+  it('reads a tar.gz, following pax long paths', async () => {
+    const longPath = `PMC1234567/${'supplementary-'.repeat(8)}article.nxml`;
+    const tgz = gzipSync(buildTar([{ path: 'PMC1234567/article.nxml', contents: '<article/>' }, { path: longPath, contents: '<long/>' }]));
+    expect(await readTexts((await readArchiveEntries(blobOf(new Uint8Array(tgz)), 'PMC1234567.tar.gz'))!)).toEqual([
+      ['PMC1234567/article.nxml', '<article/>'],
+      [longPath, '<long/>']
+    ]);
+  });
+
+  it('names the file inside a plain .gz after the archive', async () => {
+    const gz = gzipSync(encoder.encode('<PubmedArticleSet/>'));
+    expect(await readTexts((await readArchiveEntries(blobOf(new Uint8Array(gz)), 'dumps/pubmed25n0001.xml.gz'))!)).toEqual([
+      ['pubmed25n0001.xml', '<PubmedArticleSet/>']
+    ]);
+  });
+
+  it('reports a damaged central directory as an unreadable archive', async () => {
+    const zip = buildZip([{ path: 'pubmed.txt', contents: 'PMID- 1\n' }]);
+    // Point the end record past the start of the central directory.
+    new DataView(zip.buffer).setUint32(zip.length - 6, 3, true);
+
+    const error = await readArchiveEntries(blobOf(zip), 'broken.zip').catch(caught => caught);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.message).toBe('Could not read the archive "broken.zip".');
+    expect(error.cause).toBeInstanceOf(Error);
+    expect(error.cause.message).toMatch(/central directory/);
+  });
+
+  it('fails only the entries it cannot open', async () => {
+    const zip = buildZip([
+      { path: 'locked.txt', contents: 'secret', flags: 0x1 },
+      { path: 'bzip2.txt', contents: 'packed', method: 12 },
+      { path: 'pubmed.txt', contents: 'PMID- 1\n' }
+    ]);
+    const [locked, bzip2, plain] = (await readArchiveEntries(blobOf(zip), 'mixed.zip'))!;
+    await expect(locked.open()).rejects.toThrow('"locked.txt" is encrypted and cannot be read.');
+    await expect(bzip2.open()).rejects.toThrow('"bzip2.txt" uses a ZIP compression method (12) that cannot be read.');
+    expect(await (await plain.open()).text()).toBe('PMID- 1\n');
+  });
+});
+
+describe('listParseInputs', () => {
+  it('expands a tar.gz nested in a ZIP and marks entries no parser accepts', async () => {
+    const tgz = gzipSync(buildTar([
+      { path: 'PMC1/article.nxml', contents: '<article/>' },
+      { path: 'PMC1/figure1.jpg', contents: 'jpeg' }
+    ]));
+    const zip = buildZip([
+      { path: 'PMC1.tar.gz', contents: new Uint8Array(tgz) },
+      { path: 'pubmed.txt', contents: 'PMID- 1\n' }
+    ]);
+
+    const inputs = await listParseInputs(blobOf(zip), 'batch.zip');
+    expect(inputs.map(({ name, rejection }) => ({ name, rejection }))).toEqual([
+      { name: 'batch.zip/PMC1.tar.gz/PMC1/article.nxml', rejection: undefined },
+      { name: 'batch.zip/PMC1.tar.gz/PMC1/figure1.jpg', rejection: 'Skipped: not a supported export type.' },
+      { name: 'batch.zip/pubmed.txt', rejection: undefined }
+    ]);
+    expect(await (await inputs[0].open()).text()).toBe('<article/>');
+  });
+});
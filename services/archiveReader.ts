@@ -0,0 +1,239 @@
+// Reads .zip, .gz and .tar(.gz) uploads without a library: the containers are walked here and
+// gzip/deflate come from DecompressionStream, which browsers and Node 18+ both provide.
+
+export interface ArchiveEntry {
+  path: string; // Path inside the archive, e.g. "PMC1234567/article.nxml"
+  open: () => Promise<Blob>;
+}
+
+type ArchiveKind = 'zip' | 'gzip' | 'tar';
+
+// Used where only the name is known (upload filters, the staging list); reading goes by content.
+export const ARCHIVE_EXTENSIONS = ['.zip', '.gz', '.tgz', '.tar'];
+
+export const isArchiveName = (fileName: string) => {
+  const name = fileName.toLowerCase();
+  return ARCHIVE_EXTENSIONS.some(extension => name.endsWith(extension));
+};
+
+const ZIP_LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP_CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const ZIP_END_SIGNATURE = 0x06054b50;
+const ZIP64_END_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP_END_LENGTH = 22;
+const ZIP_MAX_COMMENT_LENGTH = 0xffff;
+// A 32-bit size or offset field holding this value means the real one is in the ZIP64 extra field.
+const ZIP64_PLACEHOLDER = 0xffffffff;
+const TAR_BLOCK_SIZE = 512;
+
+const nameDecoder = new TextDecoder('utf-8');
+
+const readView = async (blob: Blob, start: number, end: number) =>
+  new DataView(await blob.slice(start, end).arrayBuffer());
+
+const readBytes = async (blob: Blob, start: number, end: number) =>
+  new Uint8Array(await blob.slice(start, end).arrayBuffer());
+
+const decompress = (blob: Blob, format: 'gzip' | 'deflate-raw') =>
+  new Response(blob.stream().pipeThrough(new DecompressionStream(format))).blob();
+
+const baseName = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+// Directories have no content, and dot-files and __MACOSX/ are metadata added by the zipping tool.
+const isContentPath = (path: string) =>
+  !path.endsWith('/') && !baseName(path).startsWith('.') && !path.split('/').includes('__MACOSX');
+
+const isTarHeader = (header: Uint8Array) =>
+  header.length >= 262 && nameDecoder.decode(header.subarray(257, 262)) === 'ustar';
+
+const detectArchiveKind = async (file: Blob): Promise<ArchiveKind | null> => {
+  const header = await readBytes(file, 0, TAR_BLOCK_SIZE);
+  if (header.length >= 4 && new DataView(header.buffer).getUint32(0, true) === ZIP_LOCAL_HEADER_SIGNATURE) return 'zip';
+  if (header.length >= 2 && header[0] === 0x1f && header[1] === 0x8b) return 'gzip';
+  if (isTarHeader(header)) return 'tar';
+  return null;
+};
+
+const findZipEnd = async (file: Blob) => {
+  // The end record is 22 bytes followed by a comment of up to 64 KB, so it is in the last 65,557 bytes.
+  const start = Math.max(0, file.size - ZIP_END_LENGTH - ZIP_MAX_COMMENT_LENGTH);
+  const view = await readView(file, start, file.size);
+  for (let offset = view.byteLength - ZIP_END_LENGTH; offset >= 0; offset -= 1) {
+    if (view.getUint32(offset, true) === ZIP_END_SIGNATURE) {
+      return {
+        position: start + offset,
+        entryCount: view.getUint16(offset + 10, true),
+        directoryOffset: view.getUint32(offset + 16, true)
+      };
+    }
+  }
+  throw new Error('The ZIP archive is damaged: its central directory could not be found.');
+};
+
+// Archives over 4 GB or 65,535 entries keep the real directory location in a ZIP64 end record.
+const readZip64End = async (file: Blob, endPosition: number) => {
+  const locator = await readView(file, endPosition - 20, endPosition);
+  if (locator.getUint32(0, true) !== ZIP64_LOCATOR_SIGNATURE) return null;
+  const recordOffset = Number(locator.getBigUint64(8, true));
+  const record = await readView(file, recordOffset, recordOffset + 56);
+  if (record.getUint32(0, true) !== ZIP64_END_SIGNATURE) return null;
+  return {
+    entryCount: Number(record.getBigUint64(32, true)),
+    directoryOffset: Number(record.getBigUint64(48, true))
+  };
+};
+
+const readZip64Extra = (view: DataView, start: number, end: number, sizes: number[]) => {
+  for (let offset = start; offset + 4 <= end; ) {
+    const id = view.getUint16(offset, true);
+    const length = view.getUint16(offset + 2, true);
+    if (id === 0x0001) {
+      // Only the fields that overflowed are present, in this fixed order.
+      let field = offset + 4;
+      return sizes.map(size => {
+        if (size !== ZIP64_PLACEHOLDER) return size;
+        const value = Number(view.getBigUint64(field, true));
+        field += 8;
+        return value;
+      });
+    }
+    offset += 4 + length;
+  }
+  return sizes;
+};
+
+const openZipEntry = async (file: Blob, path: string, method: number, localOffset: number, compressedSize: number) => {
+  const header = await readView(file, localOffset, localOffset + 30);
+  if (header.getUint32(0, true) !== ZIP_LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`The ZIP archive is damaged: "${path}" could not be located.`);
+  }
+  const dataStart = localOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  const data = file.slice(dataStart, dataStart + compressedSize);
+  if (method === 0) return data;
+  if (method === 8) return decompress(data, 'deflate-raw');
+  throw new Error(`"${path}" uses a ZIP compression method (${method}) that cannot be read.`);
+};
+
+const readZipEntries = async (file: Blob): Promise<ArchiveEntry[]> => {
+  const end = await findZipEnd(file);
+  const zip64 = end.directoryOffset === ZIP64_PLACEHOLDER || end.entryCount === 0xffff
+    ? await readZip64End(file, end.position)
+    : null;
+  const { entryCount, directoryOffset } = zip64 ?? end;
+  const directory = await readView(file, directoryOffset, end.position);
+
+  const entries: ArchiveEntry[] = [];
+  let offset = 0;
+  for (let index = 0; index < entryCount; index += 1) {
+    if (offset + 46 > directory.byteLength || directory.getUint32(offset, true) !== ZIP_CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('The ZIP archive is damaged: its central directory is incomplete.');
+    }
+    const flags = directory.getUint16(offset + 8, true);
+    const method = directory.getUint16(offset + 10, true);
+    const nameLength = directory.getUint16(offset + 28, true);
+    const extraLength = directory.getUint16(offset + 30, true);
+    const commentLength = directory.getUint16(offset + 32, true);
+    const nameStart = offset + 46;
+    // Names are read as UTF-8 whether or not flag bit 11 says so; legacy CP437 names are rare in exports.
+    const path = nameDecoder.decode(new Uint8Array(directory.buffer, directory.byteOffset + nameStart, nameLength));
+    const [, compressedSize, localOffset] = readZip64Extra(
+      directory,
+      nameStart + nameLength,
+      nameStart + nameLength + extraLength,
+      [directory.getUint32(offset + 24, true), directory.getUint32(offset + 20, true), directory.getUint32(offset + 42, true)]
+    );
+    offset = nameStart + nameLength + extraLength + commentLength;
+
+    if (!isContentPath(path)) continue;
+    entries.push({
+      path,
+      open: async () => {
+        if (flags & 0x1) throw new Error(`"${path}" is encrypted and cannot be read.`);
+        return openZipEntry(file, path, method, localOffset, compressedSize);
+      }
+    });
+  }
+  return entries;
+};
+
+const readTarString = (bytes: Uint8Array) => {
+  const end = bytes.indexOf(0);
+  return nameDecoder.decode(end === -1 ? bytes : bytes.subarray(0, end));
+};
+
+// Sizes are octal text, or big-endian binary (flagged by the high bit) for GNU tar's large files.
+const readTarSize = (field: Uint8Array) => {
+  if (field[0] & 0x80) {
+    return field.subarray(1).reduce((size, byte) => size * 256 + byte, field[0] & 0x7f);
+  }
+  return parseInt(readTarString(field).trim() || '0', 8);
+};
+
+const readPaxPath = (text: string) => {
+  const match = text.match(/(?:^|\n)\d+ path=([^\n]*)\n/);
+  return match ? match[1] : null;
+};
+
+const readTarEntries = async (file: Blob): Promise<ArchiveEntry[]> => {
+  const entries: ArchiveEntry[] = [];
+  // Set by a GNU long-name or pax header and applied to the entry that follows it.
+  let nextPath: string | null = null;
+
+  for (let offset = 0; offset + TAR_BLOCK_SIZE <= file.size; ) {
+    const header = await readBytes(file, offset, offset + TAR_BLOCK_SIZE);
+    if (header.every(byte => byte === 0)) break;
+
+    const size = readTarSize(header.subarray(124, 136));
+    const type = String.fromCharCode(header[156]);
+    const dataStart = offset + TAR_BLOCK_SIZE;
+    offset = dataStart + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+
+    if (type === 'L') {
+      nextPath = readTarString(await readBytes(file, dataStart, dataStart + size));
+      continue;
+    }
+    if (type === 'x') {
+      nextPath = readPaxPath(nameDecoder.decode(await readBytes(file, dataStart, dataStart + size))) ?? nextPath;
+      continue;
+    }
+
+    const name = readTarString(header.subarray(0, 100));
+    const prefix = isTarHeader(header) ? readTarString(header.subarray(345, 500)) : '';
+    const path = nextPath ?? (prefix ? `${prefix}/${name}` : name);
+    nextPath = null;
+
+    // Regular files only; links, directories and device entries carry nothing to parse.
+    if ((type === '0' || type === '\0' || type === '7') && isContentPath(path)) {
+      entries.push({ path, open: async () => file.slice(dataStart, dataStart + size) });
+    }
+  }
+  return entries;
+};
+
+const readGzipEntries = async (file: Blob, fileName: string): Promise<ArchiveEntry[]> => {
+  const contents = await decompress(file, 'gzip');
+  if (isTarHeader(await readBytes(contents, 0, TAR_BLOCK_SIZE))) {
+    return readTarEntries(contents);
+  }
+  // A plain .gz holds a single file named after the archive, e.g. pubmed25n0001.xml.gz.
+  return [{ path: baseName(fileName).replace(/\.gz$/i, ''), open: async () => contents }];
+};
+
+// Null when the file is not an archive; otherwise its content files in archive order.
+export const readArchiveEntries = async (file: Blob, fileName: string): Promise<ArchiveEntry[] | null> => {
+  try {
+    switch (await detectArchiveKind(file)) {
+      case 'zip':
+        return await readZipEntries(file);
+      case 'gzip':
+        return await readGzipEntries(file, fileName);
+      case 'tar':
+        return await readTarEntries(file);
+      default:
+        return null;
+    }
+  } catch (error) {
+    throw new Error(`Could not read the archive "${fileName}".`, { cause: error });
+  }
+};
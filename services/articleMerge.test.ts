@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { ExtractedRecord } from '../types';
+import { mergeArticles, recordFiles, recordSources } from './articleMerge';
+import { uniqueByEmail } from './exportService';
+import { applyEdit, deleteRecords, invertEdit, updateRecordsField } from './recordEdits';
+
+const record = (id: string, fields: Partial<ExtractedRecord> = {}): ExtractedRecord => ({
+  id,
+  title: 'Gut microbiome shifts after antibiotic treatment in adults',
+  author: 'Jane Smith',
+  email: 'jane.smith@uni.edu',
+  source: 'PubMed',
+  confidence: 90,
+  matchReason: 'surname in local part',
+  ...fields
+});
+
+// The same author of one article, exported by PubMed and Scopus, plus an unrelated row.
+const batch = () => [
+  record('pubmed-1', { pmid: '31000001', sourceFile: 'pubmed.txt' }),
+  record('other-1', { title: 'Soil bacteria in arid regions', author: 'Wei Chen', email: 'wchen@uni.edu' }),
+  record('scopus-1', {
+    title: 'Gut Microbiome Shifts After Antibiotic Treatment in Adults.',
+    author: 'Smith J.',
+    source: 'Scopus',
+    sourceFile: 'scopus.csv',
+    doi: '10.1000/gut.1',
+    journal: 'Gut',
+    confidence: 80
+  })
+];
+
+describe('mergeArticles', () => {
+  it('merges one author across sources by title and fills metadata from every row', () => {
+    const merged = mergeArticles(batch());
+    expect(merged).toHaveLength(2);
+    expect(merged[0]).toMatchObject({ id: 'pubmed-1', pmid: '31000001', doi: '10.1000/gut.1', journal: 'Gut' });
+    expect(merged[0].provenance?.map(entry => entry.id)).toEqual(['pubmed-1', 'scopus-1']);
+    expect(recordSources(merged[0])).toEqual(['PubMed', 'Scopus']);
+    expect(recordFiles(merged[0])).toEqual(['pubmed.txt', 'scopus.csv']);
+  });
+
+  it('merges by shared identifier whatever the titles say', () => {
+    const merged = mergeArticles([
+      record('a', { doi: '10.1000/GUT.1' }),
+      record('b', { title: 'A title that was translated', doi: '10.1000/gut.1', source: 'Scopus' })
+    ]);
+    expect(merged).toHaveLength(1);
+  });
+
+  it('keeps articles with the same title and different PMIDs apart', () => {
+    const merged = mergeArticles([record('a', { pmid: '1' }), record('b', { pmid: '2' })]);
+    expect(merged).toHaveLength(2);
+    expect(merged.every(row => !row.provenance)).toBe(true);
+  });
+
+  it('keeps different authors sharing an email apart', () => {
+    const merged = mergeArticles([record('a'), record('b', { author: 'Wei Chen', source: 'Scopus' })]);
+    expect(merged).toHaveLength(2);
+  });
+});
+
+describe('edits to a merged record', () => {
+  const mergedRows = (data: ExtractedRecord[]) => {
+    const ids = new Set(mergeArticles(data)[0].provenance?.map(entry => entry.id));
+    return data.filter(row => ids.has(row.id));
+  };
+
+  it('deletes every row behind it and undoes as one step', () => {
+    const data = batch();
+    const edit = deleteRecords(data, mergedRows(data));
+    const deleted = applyEdit(data, edit);
+    expect(uniqueByEmail(mergeArticles(deleted)).map(row => row.email)).toEqual(['wchen@uni.edu']);
+    expect(applyEdit(deleted, invertEdit(edit))).toEqual(data);
+  });
+
+  it('changes the email on every row behind it', () => {
+    const data = batch();
+    const edited = applyEdit(data, updateRecordsField(mergedRows(data), 'email', 'j.smith@uni.edu'));
+    expect(uniqueByEmail(mergeArticles(edited)).map(row => row.email)).toEqual(['j.smith@uni.edu', 'wchen@uni.edu']);
+  });
+});
@@ -0,0 +1,170 @@
+import { ArticleMetadata, ExtractedRecord, RecordProvenance } from '../types';
+import { NameParts, namesAgree, normalizeTitle, parseAuthorName, titleSimilarity } from './nameMatching';
+
+// Titles this similar are treated as the same article when no identifier says otherwise.
+const FUZZY_TITLE_THRESHOLD = 0.92;
+// Short titles ("Editorial", "Reply to comment") repeat across unrelated articles.
+const FUZZY_TITLE_MIN_WORDS = 5;
+
+const ARTICLE_FIELDS: (keyof ArticleMetadata)[] = ['pmid', 'pmcid', 'doi', 'journal', 'year'];
+
+// DOIs are case-insensitive; PMCIDs are stored with their prefix in either case by some exports.
+const identifierKeys = (record: ExtractedRecord) => [
+  record.doi ? `doi:${record.doi.toLowerCase()}` : null,
+  record.pmid ? `pmid:${record.pmid}` : null,
+  record.pmcid ? `pmcid:${record.pmcid.toUpperCase()}` : null
+].filter((key): key is string => key !== null);
+
+// Union-find over record indexes, keeping each group's identifiers on its root so two groups
+// with different DOIs or PMIDs are never joined by a title match.
+const createArticleGroups = (records: ExtractedRecord[]) => {
+  const parent = records.map((_, index) => index);
+  const dois = records.map(record => new Set(record.doi ? [record.doi.toLowerCase()] : []));
+  const pmids = records.map(record => new Set(record.pmid ? [record.pmid] : []));
+
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const conflicts = (left: Set<string>, right: Set<string>) =>
+    left.size > 0 && right.size > 0 && !Array.from(left).some(value => right.has(value));
+
+  const union = (left: number, right: number, checkIdentifiers: boolean) => {
+    const leftRoot = find(left);
+    const rightRoot = find(right);
+    if (leftRoot === rightRoot) return;
+    if (checkIdentifiers && (conflicts(dois[leftRoot], dois[rightRoot]) || conflicts(pmids[leftRoot], pmids[rightRoot]))) {
+      return;
+    }
+    parent[rightRoot] = leftRoot;
+    dois[rightRoot].forEach(value => dois[leftRoot].add(value));
+    pmids[rightRoot].forEach(value => pmids[leftRoot].add(value));
+  };
+
+  return { find, union };
+};
+
+const groupArticles = (records: ExtractedRecord[]) => {
+  const groups = createArticleGroups(records);
+
+  const firstWithIdentifier = new Map<string, number>();
+  records.forEach((record, index) => {
+    for (const key of identifierKeys(record)) {
+      const first = firstWithIdentifier.get(key);
+      if (first === undefined) {
+        firstWithIdentifier.set(key, index);
+      } else {
+        groups.union(first, index, false);
+      }
+    }
+  });
+
+  const firstWithTitle = new Map<string, number>();
+  records.forEach((record, index) => {
+    const title = normalizeTitle(record.title);
+    if (!title) return;
+    const first = firstWithTitle.get(title);
+    if (first === undefined) {
+      firstWithTitle.set(title, index);
+    } else {
+      groups.union(first, index, true);
+    }
+  });
+
+  // Near-identical titles are only compared within a block sharing their first two words,
+  // which keeps this linear in practice on exports with thousands of articles.
+  const blocks = new Map<string, string[]>();
+  for (const title of firstWithTitle.keys()) {
+    const words = title.split(' ');
+    if (words.length < FUZZY_TITLE_MIN_WORDS) continue;
+    const blockKey = words.slice(0, 2).join(' ');
+    const block = blocks.get(blockKey);
+    if (block) {
+      block.push(title);
+    } else {
+      blocks.set(blockKey, [title]);
+    }
+  }
+  for (const titles of blocks.values()) {
+    for (let left = 0; left < titles.length; left += 1) {
+      for (let right = left + 1; right < titles.length; right += 1) {
+        if (titleSimilarity(titles[left], titles[right]) >= FUZZY_TITLE_THRESHOLD) {
+          groups.union(firstWithTitle.get(titles[left])!, firstWithTitle.get(titles[right])!, true);
+        }
+      }
+    }
+  }
+
+  const articles = new Map<number, ExtractedRecord[]>();
+  records.forEach((record, index) => {
+    const root = groups.find(index);
+    const article = articles.get(root);
+    if (article) {
+      article.push(record);
+    } else {
+      articles.set(root, [record]);
+    }
+  });
+  return Array.from(articles.values());
+};
+
+// One canonical record per author and email of an article. The most confident row is kept as
+// the base; gaps in its metadata are filled from the article's other rows, whatever their source.
+const mergeAuthorRows = (rows: ExtractedRecord[], article: ExtractedRecord[]): ExtractedRecord => {
+  const base = rows.reduce((best, row) => (row.confidence > best.confidence ? row : best));
+  if (rows.length === 1 && article.length === 1) return base;
+
+  const merged: ExtractedRecord = { ...base };
+  for (const field of ARTICLE_FIELDS) {
+    merged[field] = merged[field] || article.find(row => row[field])?.[field];
+  }
+  merged.affiliation = merged.affiliation || rows.find(row => row.affiliation)?.affiliation;
+  merged.orcid = merged.orcid || rows.find(row => row.orcid)?.orcid;
+  // Exports abbreviate given names differently; the fullest spelling is the most useful one,
+  // unless the name was corrected by hand.
+  if (!base.editStatus) {
+    merged.author = rows.reduce((longest, row) => (row.author.length > longest.length ? row.author : longest), base.author);
+  }
+  if (rows.length > 1) {
+    merged.provenance = rows.map(({ id, source, sourceFile }): RecordProvenance => ({ id, source, sourceFile }));
+  }
+  return merged;
+};
+
+// Article-level merge for batches that mix sources: rows are grouped into articles by DOI,
+// PMID or PMCID, then by normalized and near-identical titles, and each author's rows within an
+// article become one record that lists the rows it came from. Order follows first appearance.
+export const mergeArticles = (data: ExtractedRecord[]) => {
+  const merged: ExtractedRecord[] = [];
+  for (const article of groupArticles(data)) {
+    const authors: { email: string; name: NameParts | null; rows: ExtractedRecord[] }[] = [];
+    for (const row of article) {
+      const email = row.email.toLowerCase();
+      const name = parseAuthorName(row.author);
+      const author = authors.find(candidate =>
+        candidate.email === email &&
+        (candidate.name && name ? namesAgree(candidate.name, name) : candidate.rows[0].author === row.author)
+      );
+      if (author) {
+        author.rows.push(row);
+      } else {
+        authors.push({ email, name, rows: [row] });
+      }
+    }
+    merged.push(...authors.map(author => mergeAuthorRows(author.rows, article)));
+  }
+  return merged;
+};
+
+// The distinct sources and files behind a record, merged or not.
+export const recordSources = (record: ExtractedRecord) =>
+  record.provenance ? Array.from(new Set(record.provenance.map(entry => entry.source))) : [record.source];
+
+export const recordFiles = (record: ExtractedRecord) =>
+  record.provenance
+    ? Array.from(new Set(record.provenance.map(entry => entry.sourceFile).filter((file): file is string => !!file)))
+    : record.sourceFile ? [record.sourceFile] : [];
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { ExtractedRecord } from '../types';
+import { resolveAuthors } from './authorResolution';
+
+let nextId = 0;
+
+const record = (fields: Partial<ExtractedRecord> & Pick<ExtractedRecord, 'author' | 'email'>): ExtractedRecord => {
+  nextId += 1;
+  return {
+    id: `row-${nextId}`,
+    title: `Article ${nextId}`,
+    source: 'PubMed',
+    confidence: 90,
+    matchReason: 'surname in local part',
+    ...fields
+  };
+};
+
+const peopleNames = (records: ExtractedRecord[]) =>
+  resolveAuthors(records).map(person => person.records.map(row => row.author).sort());
+
+describe('resolveAuthors', () => {
+  it('joins spellings of one name that share an email', () => {
+    const people = resolveAuthors([
+      record({ author: 'Jane Smith', email: 'jsmith@uni.edu' }),
+      record({ author: 'Smith JA', email: 'JSmith@uni.edu' }),
+      record({ author: 'Smith, J.', email: 'jsmith@uni.edu' })
+    ]);
+    expect(people).toHaveLength(1);
+    expect(people[0].name).toBe('Jane Smith');
+    expect(people[0].papers).toHaveLength(3);
+  });
+
+  it('keeps co-authors on a shared mailbox apart', () => {
+    expect(peopleNames([
+      record({ author: 'Jane Smith', email: 'lab@uni.edu' }),
+      record({ author: 'Wei Chen', email: 'lab@uni.edu' })
+    ])).toEqual([['Jane Smith'], ['Wei Chen']]);
+  });
+
+  it('does not chain different given names through an initial on a shared mailbox', () => {
+    const people = peopleNames([
+      record({ author: 'Jane Smith', email: 'lab@uni.edu' }),
+      record({ author: 'J Smith', email: 'lab@uni.edu' }),
+      record({ author: 'John Smith', email: 'lab@uni.edu' })
+    ]);
+    expect(people).toHaveLength(2);
+    expect(people).toContainEqual(['John Smith']);
+  });
+
+  it('does not chain different given names through an initial at one affiliation', () => {
+    const affiliation = 'Department of Genetics, Harbor Valley University, Riverton';
+    const people = peopleNames([
+      record({ author: 'Jane Smith', email: 'jane@uni.edu', affiliation }),
+      record({ author: 'J Smith', email: 'js@uni.edu', affiliation }),
+      record({ author: 'John Smith', email: 'john@uni.edu', affiliation })
+    ]);
+    expect(people).toHaveLength(2);
+    expect(people).toContainEqual(['John Smith']);
+  });
+
+  it('joins records by ORCID iD and keeps different iDs apart', () => {
+    expect(peopleNames([
+      record({ author: 'Jane Smith', email: 'jane@uni.edu', orcid: '0000-0002-1825-0097' }),
+      record({ author: 'J. Smith', email: 'jane.smith@other.org', orcid: '0000-0002-1825-0097' }),
+      record({ author: 'Jane Smith', email: 'jane@uni.edu', orcid: '0000-0001-5109-3700' })
+    ])).toEqual([['J. Smith', 'Jane Smith'], ['Jane Smith']]);
+  });
+
+  it('matches names across diacritics and name order', () => {
+    const affiliation = 'Institute of Marine Biology, Coastal Research Station, Brest';
+    const people = resolveAuthors([
+      record({ author: 'Jos\u00e9 Garc\u00eda-L\u00f3pez', email: 'jgl@station.fr', affiliation }),
+      record({ author: 'Garcia-Lopez, Jose', email: 'jose.garcia@station.fr', affiliation })
+    ]);
+    expect(people).toHaveLength(1);
+    expect(people[0].emails).toEqual(['jgl@station.fr', 'jose.garcia@station.fr']);
+  });
+});
@@ -0,0 +1,228 @@
+import { ExtractedRecord } from '../types';
+import { recordSources } from './articleMerge';
+import { NameParts, foldText, namesCompatible, normalizeTitle, parseAuthorName, surnamesMatch } from './nameMatching';
+
+export interface AuthorPaper {
+  title: string;
+  year?: string;
+  doi?: string;
+  pmid?: string;
+}
+
+// One person, clustered from every record that names them.
+export interface AuthorProfile {
+  id: string; // Id of the person's first record
+  name: string; // The fullest spelling found
+  emails: string[];
+  orcid?: string;
+  affiliation?: string; // From the most recent paper that has one
+  papers: AuthorPaper[]; // Newest first
+  sources: string[];
+  records: ExtractedRecord[];
+}
+
+// Words every affiliation shares; overlap on them says nothing about being the same place.
+const GENERIC_AFFILIATION_WORDS = new Set([
+  'and', 'the', 'for', 'department', 'dept', 'university', 'univ', 'institute', 'school', 'faculty',
+  'college', 'center', 'centre', 'hospital', 'laboratory', 'lab', 'division', 'unit', 'research',
+  'science', 'sciences', 'medicine', 'medical', 'national', 'state', 'email', 'electronic', 'address'
+]);
+const MIN_SHARED_AFFILIATION_WORDS = 2;
+// Shared words as a share of the shorter affiliation's words.
+const MIN_AFFILIATION_OVERLAP = 0.5;
+
+const EMAIL_REGEX = /\S+@\S+/g;
+
+const affiliationWords = (affiliation: string | undefined) =>
+  new Set(
+    foldText((affiliation ?? '').replace(EMAIL_REGEX, ' '))
+      .split(' ')
+      .filter(word => word.length > 2 && !/^\d+$/.test(word) && !GENERIC_AFFILIATION_WORDS.has(word))
+  );
+
+const affiliationsOverlap = (left: Set<string>, right: Set<string>) => {
+  if (left.size === 0 || right.size === 0) return false;
+  let shared = 0;
+  for (const word of left) {
+    if (right.has(word)) shared += 1;
+  }
+  return shared >= MIN_SHARED_AFFILIATION_WORDS && shared / Math.min(left.size, right.size) >= MIN_AFFILIATION_OVERLAP;
+};
+
+// Whether two names could belong to one person. A name without given names is only checked
+// on its surname.
+const namesConsistent = (left: NameParts, right: NameParts) => {
+  if (left.given.length === 0 || right.given.length === 0) return surnamesMatch(left.surname, right.surname);
+  return namesCompatible(left, right);
+};
+
+const nameKey = (name: NameParts) => `${name.surname}|${name.given.join(' ')}`;
+
+// Union-find over record indexes. Each group keeps its ORCID iDs on its root so two people
+// with different iDs are never joined, whatever their names and emails. It also keeps its
+// distinct names there, and a join by email or affiliation needs every name of one group to be
+// consistent with every name of the other: pair by pair, "J Smith" would chain "Jane Smith" and
+// "John Smith" into one person through a lab mailbox all three use.
+const createPeopleGroups = (records: ExtractedRecord[], names: (NameParts | null)[]) => {
+  const parent = records.map((_, index) => index);
+  const orcids = records.map(record => new Set(record.orcid ? [record.orcid] : []));
+  const groupNames = names.map(name => new Map(name ? [[nameKey(name), name]] : []));
+
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const namesFit = (leftRoot: number, rightRoot: number) => {
+    const rightNames = Array.from(groupNames[rightRoot].values());
+    for (const leftName of groupNames[leftRoot].values()) {
+      if (!rightNames.every(rightName => namesConsistent(leftName, rightName))) return false;
+    }
+    return true;
+  };
+
+  // A shared ORCID iD joins groups whatever the names say.
+  const union = (left: number, right: number, checkNames: boolean) => {
+    const leftRoot = find(left);
+    const rightRoot = find(right);
+    if (leftRoot === rightRoot) return;
+    const leftIds = orcids[leftRoot];
+    const rightIds = orcids[rightRoot];
+    if (leftIds.size > 0 && rightIds.size > 0 && !Array.from(leftIds).some(id => rightIds.has(id))) return;
+    if (checkNames && !namesFit(leftRoot, rightRoot)) return;
+    parent[rightRoot] = leftRoot;
+    rightIds.forEach(id => leftIds.add(id));
+    groupNames[rightRoot].forEach((name, key) => groupNames[leftRoot].set(key, name));
+  };
+
+  return { find, union };
+};
+
+const pushToGroup = <K,>(groups: Map<K, number[]>, key: K, index: number) => {
+  const group = groups.get(key);
+  if (group) {
+    group.push(index);
+  } else {
+    groups.set(key, [index]);
+  }
+};
+
+const yearOf = (record: ExtractedRecord) => Number(record.year) || 0;
+
+const buildProfile = (records: ExtractedRecord[]): AuthorProfile => {
+  const emails = new Map<string, string>();
+  const papers = new Map<string, AuthorPaper>();
+  for (const record of records) {
+    if (!emails.has(record.email.toLowerCase())) emails.set(record.email.toLowerCase(), record.email);
+    const paperKey = record.doi?.toLowerCase() || record.pmid || normalizeTitle(record.title);
+    if (!papers.has(paperKey)) {
+      papers.set(paperKey, { title: record.title, year: record.year, doi: record.doi, pmid: record.pmid });
+    }
+  }
+
+  // Records without a year count as the oldest; among equals the first one seen wins.
+  const latestAffiliated = records
+    .filter(record => record.affiliation)
+    .reduce<ExtractedRecord | undefined>(
+      (latest, record) => (!latest || yearOf(record) > yearOf(latest) ? record : latest),
+      undefined
+    );
+
+  const fullestName = records.reduce(
+    (longest, record) => (record.author.length > longest.length ? record.author : longest),
+    records[0].author
+  );
+
+  return {
+    id: records[0].id,
+    name: fullestName,
+    emails: Array.from(emails.values()),
+    orcid: records.find(record => record.orcid)?.orcid,
+    affiliation: latestAffiliated?.affiliation,
+    papers: Array.from(papers.values()).sort((left, right) => (Number(right.year) || 0) - (Number(left.year) || 0)),
+    sources: Array.from(new Set(records.flatMap(recordSources))),
+    records
+  };
+};
+
+// Clusters records into people. Two records are the same person when they share an ORCID iD,
+// share an email under compatible names, or have compatible names and overlapping
+// affiliations. Expects article-merged records so one paper is not counted twice.
+// People with the most papers come first.
+export const resolveAuthors = (records: ExtractedRecord[]): AuthorProfile[] => {
+  const names = records.map(record => parseAuthorName(record.author));
+  const groups = createPeopleGroups(records, names);
+
+  const byOrcid = new Map<string, number[]>();
+  const byEmail = new Map<string, number[]>();
+  // Names are only compared within a block sharing a surname part, so double surnames meet both halves.
+  const bySurname = new Map<string, number[]>();
+  records.forEach((record, index) => {
+    if (record.orcid) pushToGroup(byOrcid, record.orcid, index);
+    pushToGroup(byEmail, record.email.toLowerCase(), index);
+    const name = names[index];
+    if (name) {
+      for (const part of name.surname.split(/[- ]+/)) pushToGroup(bySurname, part, index);
+    }
+  });
+
+  for (const indexes of byOrcid.values()) {
+    indexes.slice(1).forEach(index => groups.union(indexes[0], index, false));
+  }
+
+  // An email shared by two records is the same person unless the names say otherwise, which is
+  // how a lab or department mailbox used by several co-authors stays split.
+  for (const indexes of byEmail.values()) {
+    for (let left = 0; left < indexes.length; left += 1) {
+      for (let right = left + 1; right < indexes.length; right += 1) {
+        groups.union(indexes[left], indexes[right], true);
+      }
+    }
+  }
+
+  const words = records.map(record => affiliationWords(record.affiliation));
+  for (const indexes of bySurname.values()) {
+    // Repeats of the same name and affiliation text are compared once, through the first of them.
+    const representatives = new Map<string, number>();
+    const tryUnion = (left: number, right: number) => {
+      if (groups.find(left) === groups.find(right)) return;
+      if (namesCompatible(names[left]!, names[right]!) && affiliationsOverlap(words[left], words[right])) {
+        groups.union(left, right, true);
+      }
+    };
+    for (const index of indexes) {
+      const signature = `${records[index].author}\u0000${records[index].affiliation ?? ''}`;
+      const first = representatives.get(signature);
+      if (first === undefined) {
+        representatives.set(signature, index);
+      } else {
+        tryUnion(first, index);
+      }
+    }
+
+    const distinct = Array.from(representatives.values());
+    for (let left = 0; left < distinct.length; left += 1) {
+      for (let right = left + 1; right < distinct.length; right += 1) {
+        tryUnion(distinct[left], distinct[right]);
+      }
+    }
+  }
+
+  const clusters = new Map<number, ExtractedRecord[]>();
+  records.forEach((record, index) => {
+    const root = groups.find(index);
+    const cluster = clusters.get(root);
+    if (cluster) {
+      cluster.push(record);
+    } else {
+      clusters.set(root, [record]);
+    }
+  });
+
+  return Array.from(clusters.values())
+    .map(buildProfile)
+    .sort((left, right) => right.papers.length - left.papers.length);
+};
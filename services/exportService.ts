@@ -1,24 +1,95 @@
 import { ExtractedRecord } from '../types';
+import { recordFiles, recordSources } from './articleMerge';
+import type { AuthorProfile } from './authorResolution';
 
-export const downloadCSV = (data: ExtractedRecord[], filename: string) => {
+export type MetadataField = 'pmid' | 'pmcid' | 'doi' | 'journal' | 'year' | 'affiliation' | 'orcid' | 'sourceFile';
+
+export const METADATA_COLUMNS: { key: MetadataField; label: string }[] = [
+  { key: 'pmid', label: 'PMID' },
+  { key: 'pmcid', label: 'PMCID' },
+  { key: 'doi', label: 'DOI' },
+  { key: 'journal', label: 'Journal' },
+  { key: 'year', label: 'Year' },
+  { key: 'affiliation', label: 'Affiliation' },
+  { key: 'orcid', label: 'ORCID' },
+  { key: 'sourceFile', label: 'File' }
+];
+
+// Metadata columns only appear when at least one record has a value for them.
+export const getMetadataColumns = (data: ExtractedRecord[]) =>
+  METADATA_COLUMNS.filter(column => data.some(row => row[column.key]));
+
+// Escape quotes and wrap in quotes to handle commas in content
+export const quoteCSV = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+// Builds the CSV body without touching the DOM so the CLI can reuse it.
+export const buildCSV = (data: ExtractedRecord[]) => {
   // Define columns
-  const headers = ["Title", "Author", "Author Email"];
+  const metadataColumns = getMetadataColumns(data);
+  const hasManualChanges = data.some(row => row.editStatus);
+  // A source column only says something when the rows come from more than one.
+  const hasMixedSources = new Set(data.flatMap(recordSources)).size > 1;
+  const headers = [
+    "Title",
+    "Author",
+    "Author Email",
+    "Confidence",
+    "Match Reason",
+    ...(hasMixedSources ? ["Source"] : []),
+    ...metadataColumns.map(column => column.label),
+    ...(hasManualChanges ? ["Manual Change"] : [])
+  ];
   
   // Create CSV content
   const csvRows = [
     headers.join(","), // Header row
-    ...data.map(row => {
-      // Escape quotes and wrap in quotes to handle commas in content
-      const title = `"${row.title.replace(/"/g, '""')}"`;
-      const author = `"${row.author.replace(/"/g, '""')}"`;
-      const email = `"${row.email.replace(/"/g, '""')}"`;
-      return [title, author, email].join(",");
-    })
+    ...data.map(row =>
+      [
+        row.title,
+        row.author,
+        row.email,
+        String(row.confidence),
+        row.matchReason,
+        ...(hasMixedSources ? [recordSources(row).join('; ')] : []),
+        ...metadataColumns.map(column => (column.key === 'sourceFile' ? recordFiles(row).join('; ') : row[column.key] ?? '')),
+        ...(hasManualChanges ? [row.editStatus ?? ''] : [])
+      ]
+        .map(quoteCSV)
+        .join(",")
+    )
   ];
 
   // Prefix UTF-8 BOM so Excel preserves non-ASCII characters correctly.
-  const csvString = `\uFEFF${csvRows.join("\n")}`;
-  
+  return `\uFEFF${csvRows.join("\n")}`;
+};
+
+// One row per person from the People view; lists are joined with "; " within their cell.
+export const buildPeopleCSV = (people: AuthorProfile[]) => {
+  const headers = ["Name", "Emails", "ORCID", "Most Recent Affiliation", "Papers", "Paper Titles", "Sources"];
+  const csvRows = [
+    headers.join(","),
+    ...people.map(person =>
+      [
+        person.name,
+        person.emails.join('; '),
+        person.orcid ?? '',
+        person.affiliation ?? '',
+        String(person.papers.length),
+        person.papers.map(paper => (paper.year ? `${paper.title} (${paper.year})` : paper.title)).join('; '),
+        person.sources.join('; ')
+      ]
+        .map(quoteCSV)
+        .join(",")
+    )
+  ];
+  return `\uFEFF${csvRows.join("\n")}`;
+};
+
+export const downloadCSV = (data: ExtractedRecord[], filename: string) => {
+  saveCSVFile(buildCSV(data), filename);
+};
+
+export const saveCSVFile = (csvString: string, filename: string) => {
   // Create a blob and trigger download
   const blob = new Blob([csvString], { type: 'text/csv;charset=utf-8;' });
   const url = URL.createObjectURL(blob);
@@ -31,3 +102,15 @@ export const downloadCSV = (data: ExtractedRecord[], filename: string) => {
   link.click();
   document.body.removeChild(link);
 };
+
+// Keeps one record for each email address, case-insensitively: the most confident match,
+// or the first one seen when they tie. Rows stay in the order their email first appeared.
+export const uniqueByEmail = (data: ExtractedRecord[]) => {
+  const best = new Map<string, ExtractedRecord>();
+  for (const row of data) {
+    const key = row.email.toLowerCase();
+    const current = best.get(key);
+    if (!current || row.confidence > current.confidence) best.set(key, row);
+  }
+  return Array.from(best.values());
+};
@@ -0,0 +1,70 @@
+// Gathers files from drops, folder walks and pasted text, and sorts out the ones no parser accepts.
+
+const readEntries = (reader: FileSystemDirectoryReader) =>
+  new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+
+const entryFile = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+// Dot-files in dropped folders (.DS_Store, ._resource forks) are operating system metadata.
+const isHiddenName = (name: string) => name.startsWith('.');
+
+const walkEntry = async (entry: FileSystemEntry, files: File[]) => {
+  if (entry.isFile) {
+    files.push(await entryFile(entry as FileSystemFileEntry));
+    return;
+  }
+  if (!entry.isDirectory) return;
+
+  // readEntries hands back at most 100 entries per call, so keep reading until it returns none.
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  for (;;) {
+    const batch = await readEntries(reader);
+    if (batch.length === 0) break;
+    for (const child of batch) {
+      if (!isHiddenName(child.name)) await walkEntry(child, files);
+    }
+  }
+};
+
+// Entries must be taken from the DataTransfer synchronously; it is emptied once the drop handler returns.
+export const collectDroppedFiles = async (dataTransfer: DataTransfer) => {
+  const entries: FileSystemEntry[] = [];
+  const looseFiles: File[] = [];
+  for (let index = 0; index < dataTransfer.items.length; index += 1) {
+    const item = dataTransfer.items[index];
+    if (item.kind !== 'file') continue;
+    const entry = item.webkitGetAsEntry?.();
+    if (entry) {
+      entries.push(entry);
+    } else {
+      const file = item.getAsFile();
+      if (file) looseFiles.push(file);
+    }
+  }
+
+  const files: File[] = [...looseFiles];
+  for (const entry of entries) {
+    await walkEntry(entry, files);
+  }
+  return files;
+};
+
+// Matches the extension against accept values such as ".txt"; MIME patterns are not used by the parsers.
+export const partitionByAcceptTypes = (files: File[], acceptTypes: string[]) => {
+  const extensions = acceptTypes.map(type => type.toLowerCase());
+  const accepted: File[] = [];
+  const rejected: File[] = [];
+  for (const file of files) {
+    const name = file.name.toLowerCase();
+    if (extensions.some(extension => name.endsWith(extension))) {
+      accepted.push(file);
+    } else {
+      rejected.push(file);
+    }
+  }
+  return { accepted, rejected };
+};
+
+export const createPastedFile = (text: string, index: number) =>
+  new File([text], `pasted-text-${index}.txt`, { type: 'text/plain' });
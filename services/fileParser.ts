@@ -0,0 +1,91 @@
+import { DataSourceType, ExtractedRecord, SkipCounts } from '../types';
+import { openTextStream, readAllText, readHead, splitLineBatches } from './fileReader';
+import { detectSourceType } from './parsers/formatDetection';
+import { getAllAcceptTypes, getParser } from './parsers/registry';
+import { isArchiveName, readArchiveEntries } from './archiveReader';
+
+// Lets callers tell "we could not tell what this is" apart from a parser failing on the file.
+export class UnknownFormatError extends Error {
+  constructor(fileName: string) {
+    super(`Could not detect the format of "${fileName}". Select its data source manually.`);
+    this.name = 'UnknownFormatError';
+  }
+}
+
+export interface ParseFileCallbacks {
+  onBytesRead?: (bytesRead: number) => void;
+  // Called once the whole file is in memory and a non-streaming parser takes over.
+  onParsing?: () => void;
+  onRecords: (records: ExtractedRecord[]) => void;
+}
+
+export interface ParseFileSummary {
+  detectedSource: DataSourceType | null;
+  totalProcessed: number;
+  skipped: SkipCounts;
+}
+
+// One file to parse: an upload itself, or a file inside an uploaded archive.
+export interface ParseInput {
+  name: string; // Archive entries are named "archive.zip/path/inside.xml"
+  open: () => Promise<Blob>;
+  // Set for archive entries no parser accepts (figures and PDFs in PMC OA packages); they are reported, not parsed.
+  rejection?: string;
+}
+
+export const detectFileSource = async (file: Blob) => detectSourceType(await readHead(file));
+
+// Archives, including archives nested inside them, are expanded into their entries.
+export const listParseInputs = async (file: Blob, fileName: string): Promise<ParseInput[]> => {
+  const entries = await readArchiveEntries(file, fileName);
+  if (!entries) return [{ name: fileName, open: async () => file }];
+  if (entries.length === 0) throw new Error(`The archive "${fileName}" contains no files.`);
+
+  const acceptTypes = getAllAcceptTypes();
+  const inputs: ParseInput[] = [];
+  for (const entry of entries) {
+    const name = `${fileName}/${entry.path}`;
+    const path = entry.path.toLowerCase();
+    if (isArchiveName(path)) {
+      inputs.push(...(await listParseInputs(await entry.open(), name)));
+    } else if (acceptTypes.some(type => path.endsWith(type))) {
+      inputs.push({ name, open: entry.open });
+    } else {
+      inputs.push({ name, open: entry.open, rejection: 'Skipped: not a supported export type.' });
+    }
+  }
+  return inputs;
+};
+
+// Shared by the browser worker, the CLI and the API: sniff the format from the head of the file,
+// then stream it through the parser when the format supports line-by-line parsing.
+export const parseFile = async (
+  file: Blob,
+  fileName: string,
+  source: DataSourceType | null,
+  callbacks: ParseFileCallbacks
+): Promise<ParseFileSummary> => {
+  const { head, chunks } = await openTextStream(file, callbacks.onBytesRead);
+  // Every row carries its file so merged batches can be traced back.
+  const onRecords = (records: ExtractedRecord[]) =>
+    callbacks.onRecords(records.map(record => ({ ...record, sourceFile: fileName })));
+
+  const detectedSource = detectSourceType(head);
+  const resolvedSource = source ?? detectedSource;
+  if (!resolvedSource) {
+    throw new UnknownFormatError(fileName);
+  }
+
+  const parser = getParser(resolvedSource);
+  if (parser.parseLines) {
+    const { totalProcessed, skipped } = await parser.parseLines(splitLineBatches(chunks), onRecords);
+    return { detectedSource, totalProcessed, skipped: skipped ?? {} };
+  }
+
+  const text = await readAllText(chunks);
+  callbacks.onParsing?.();
+
+  const result = await parser.parse(text);
+  onRecords(result.records);
+  return { detectedSource, totalProcessed: result.totalProcessed, skipped: result.skipped ?? {} };
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { openTextStream, readAllText, readFileText, splitLineBatches } from './fileReader';
+
+const blobOf = (...parts: number[][]) => new Blob(parts.map(part => new Uint8Array(part)));
+
+const asciiBytes = (text: string) => Array.from(text, character => character.charCodeAt(0));
+
+describe('readFileText', () => {
+  it('reads UTF-8 and strips its BOM', async () => {
+    expect(await readFileText(blobOf([0xef, 0xbb, 0xbf], asciiBytes('caf'), [0xc3, 0xa9]))).toBe('caf\u00e9');
+  });
+
+  it('reads UTF-16 files by their BOM', async () => {
+    expect(await readFileText(blobOf([0xff, 0xfe, 0x61, 0x00, 0xe9, 0x00]))).toBe('a\u00e9');
+    expect(await readFileText(blobOf([0xfe, 0xff, 0x00, 0x61, 0x00, 0xe9]))).toBe('a\u00e9');
+  });
+
+  it('reads windows-1252 files that end in an accented byte', async () => {
+    expect(await readFileText(blobOf([0x61, 0x62, 0xe9]))).toBe('ab\u00e9');
+  });
+
+  it('keeps UTF-8 after a stray byte past the head sample', async () => {
+    const padding = new Array(64 * 1024).fill(0x61);
+    const text = await readFileText(blobOf(padding, [0xe9, 0x20, 0xc3, 0xa9]));
+    expect(text.slice(padding.length)).toBe('\ufffd \u00e9');
+  });
+
+  it('reads the whole file as windows-1252 when the head is not UTF-8', async () => {
+    const padding = new Array(64 * 1024).fill(0x61);
+    const text = await readFileText(blobOf([0xe9], padding, [0xc3, 0xa9]));
+    expect(text.startsWith('\u00e9a')).toBe(true);
+    expect(text.endsWith('a\u00c3\u00a9')).toBe(true);
+  });
+
+  it('does not split a character across stream chunks', async () => {
+    const padding = new Array(64 * 1024 - 1).fill(0x61);
+    const text = await readFileText(blobOf(padding, [0xc3], [0xa9]));
+    expect(text.endsWith('a\u00e9')).toBe(true);
+  });
+});
+
+describe('openTextStream', () => {
+  it('replays the head before the rest of the file', async () => {
+    const { head, chunks } = await openTextStream(blobOf(asciiBytes('first\nsecond')));
+    expect(head).toBe('first\nsecond');
+    expect(await readAllText(chunks)).toBe('first\nsecond');
+  });
+});
+
+describe('splitLineBatches', () => {
+  async function* chunksOf(...chunks: string[]) {
+    yield* chunks;
+  }
+
+  it('joins a \\r\\n pair split across chunks', async () => {
+    const lines: string[] = [];
+    for await (const batch of splitLineBatches(chunksOf('one\r', '\ntwo\rthree\n', 'four'))) {
+      lines.push(...batch);
+    }
+    expect(lines).toEqual(['one', 'two', 'three', 'four']);
+  });
+});
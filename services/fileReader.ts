@@ -0,0 +1,141 @@
+// Enough of the file to sniff its format without holding the whole thing in memory.
+const HEAD_LENGTH = 64 * 1024;
+
+const LINE_BREAK_REGEX = /\r\n|\r|\n/;
+
+const isUtf8 = (bytes: Uint8Array, complete: boolean) => {
+  try {
+    // A sample cut mid-character is still UTF-8; only a complete file must end on a whole one.
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: !complete });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// The encoding is settled once, from the head of the file, so a stray byte further in cannot
+// switch it mid-stream: files with a BOM follow it, valid UTF-8 stays UTF-8 (later invalid bytes
+// become U+FFFD), and anything else is read as windows-1252, as legacy exports (EndNote, older
+// MEDLINE dumps) usually are.
+const pickDecoder = async (file: Blob) => {
+  const head = new Uint8Array(await file.slice(0, HEAD_LENGTH).arrayBuffer());
+
+  if (head.length >= 3 && head[0] === 0xef && head[1] === 0xbb && head[2] === 0xbf) {
+    return { decoder: new TextDecoder('utf-8'), bomLength: 3 };
+  }
+
+  if (head.length >= 2 && head[0] === 0xff && head[1] === 0xfe) {
+    return { decoder: new TextDecoder('utf-16le'), bomLength: 2 };
+  }
+
+  if (head.length >= 2 && head[0] === 0xfe && head[1] === 0xff) {
+    return { decoder: new TextDecoder('utf-16be'), bomLength: 2 };
+  }
+
+  if (isUtf8(head, head.length === file.size)) {
+    return { decoder: new TextDecoder('utf-8'), bomLength: 0 };
+  }
+
+  return { decoder: new TextDecoder('windows-1252'), bomLength: 0 };
+};
+
+// Decodes a Blob chunk by chunk in the encoding picked from its head.
+export async function* readTextChunks(file: Blob, onProgress?: (bytesRead: number) => void) {
+  const { decoder, bomLength } = await pickDecoder(file);
+  const reader = file.stream().getReader();
+  let bomLeft = bomLength;
+  let bytesRead = 0;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      bytesRead += value.length;
+      onProgress?.(bytesRead);
+
+      let bytes: Uint8Array = value;
+      if (bomLeft > 0) {
+        const skipped = Math.min(bomLeft, bytes.length);
+        bytes = bytes.subarray(skipped);
+        bomLeft -= skipped;
+      }
+      yield decoder.decode(bytes, { stream: true });
+    }
+
+    // None of the decoders is fatal, so a truncated last character flushes as U+FFFD instead of throwing.
+    const tail = decoder.decode();
+    if (tail) yield tail;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Yields lines in batches (one per chunk) so per-line async overhead stays negligible on
+// multi-gigabyte inputs. Line endings follow the same \r\n / \r / \n rules as the parsers.
+export async function* splitLineBatches(chunks: AsyncIterable<string>) {
+  let buffer = '';
+
+  for await (const chunk of chunks) {
+    buffer += chunk;
+    // A chunk ending in \r may be the first half of a \r\n pair.
+    const holdCarriageReturn = buffer.endsWith('\r');
+    const lines = (holdCarriageReturn ? buffer.slice(0, -1) : buffer).split(LINE_BREAK_REGEX);
+    buffer = `${lines.pop() ?? ''}${holdCarriageReturn ? '\r' : ''}`;
+    if (lines.length > 0) yield lines;
+  }
+
+  yield [buffer.replace(/\r$/, '')];
+}
+
+export const readAllText = async (chunks: AsyncIterable<string>) => {
+  const parts: string[] = [];
+  for await (const chunk of chunks) {
+    parts.push(chunk);
+  }
+  return parts.join('');
+};
+
+// Reads just enough to sniff the format, then hands back a chunk stream that replays the
+// head before continuing with the rest of the file.
+export const openTextStream = async (file: Blob, onProgress?: (bytesRead: number) => void) => {
+  const iterator = readTextChunks(file, onProgress);
+  const buffered: string[] = [];
+  let bufferedLength = 0;
+  let exhausted = false;
+
+  while (bufferedLength < HEAD_LENGTH) {
+    const next = await iterator.next();
+    if (next.done) {
+      exhausted = true;
+      break;
+    }
+    const chunk = next.value as string;
+    buffered.push(chunk);
+    bufferedLength += chunk.length;
+  }
+
+  async function* chunks(): AsyncGenerator<string> {
+    yield* buffered;
+    if (exhausted) return;
+    for (;;) {
+      const next = await iterator.next();
+      if (next.done) return;
+      yield next.value as string;
+    }
+  }
+
+  return { head: buffered.join(''), chunks: chunks() };
+};
+
+// Just the start of the file, for sniffing its format before the batch is parsed.
+export const readHead = async (file: Blob) => {
+  let head = '';
+  for await (const chunk of readTextChunks(file)) {
+    head += chunk;
+    if (head.length >= HEAD_LENGTH) break;
+  }
+  return head;
+};
+
+export const readFileText = async (file: Blob, onProgress?: (bytesRead: number) => void) =>
+  readAllText(readTextChunks(file, onProgress));
@@ -0,0 +1,108 @@
+// Name and title forms for comparing records from different exports, which spell the same
+// person or article with different accents, punctuation and name order.
+
+const stripDiacritics = (value: string) => value.normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+
+// Lowercase ASCII: diacritics are dropped and anything but letters and digits becomes a space.
+export const foldText = (value: string) =>
+  stripDiacritics(value)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+export interface NameParts {
+  surname: string; // Folded; hyphenated surnames keep their hyphen, e.g. "garcia-lopez"
+  given: string[]; // Folded given names or initials, in order
+}
+
+// Trailing initials in their original case, as in "Smith JA" or "Smith J.-P.".
+const INITIALS_REGEX = /^(?:[A-Z]\.?-?){1,3}$/;
+
+const foldNamePart = (value: string) =>
+  stripDiacritics(value)
+    .toLowerCase()
+    .replace(/[^a-z-]+/g, '')
+    .replace(/^-+|-+$/g, '');
+
+// Accepts "Jane Smith", "Smith, Jane" and "Smith JA"; null when no surname is left.
+export const parseAuthorName = (name: string): NameParts | null => {
+  const commaIndex = name.indexOf(',');
+  let surnameTokens: string[];
+  let givenTokens: string[];
+  if (commaIndex > -1) {
+    surnameTokens = name.slice(0, commaIndex).split(/\s+/);
+    givenTokens = name.slice(commaIndex + 1).split(/\s+/);
+  } else {
+    const tokens = name.trim().split(/\s+/);
+    const last = tokens[tokens.length - 1] ?? '';
+    if (tokens.length > 1 && INITIALS_REGEX.test(last)) {
+      surnameTokens = tokens.slice(0, -1);
+      givenTokens = last.replace(/[.-]/g, '').split('');
+    } else {
+      surnameTokens = tokens.slice(-1);
+      givenTokens = tokens.slice(0, -1);
+    }
+  }
+
+  const surname = surnameTokens.map(foldNamePart).filter(Boolean).join(' ');
+  if (!surname) return null;
+  // "Jean-Pierre" and "J.-P." are two given names as far as initials go.
+  const given = givenTokens.flatMap(token => token.split(/[.-]+/)).map(foldNamePart).filter(Boolean);
+  return { surname, given };
+};
+
+// Same surname and the same first initial: "J. Smith", "Jane Smith" and "Smith J" all agree.
+export const namesAgree = (left: NameParts, right: NameParts) =>
+  left.surname === right.surname && (left.given[0]?.[0] ?? '') === (right.given[0]?.[0] ?? '');
+
+const surnameParts = (surname: string) => surname.split(/[- ]+/);
+
+// Hyphens and spaces are interchangeable, and a double surname matches either of its parts on
+// its own, since exports often keep only one of them ("Garcia-Lopez", "Garcia Lopez", "Garcia").
+export const surnamesMatch = (left: string, right: string) => {
+  const leftParts = surnameParts(left);
+  const rightParts = surnameParts(right);
+  if (leftParts.join(' ') === rightParts.join(' ')) return true;
+  if (leftParts.length === 1) return rightParts.includes(leftParts[0]);
+  if (rightParts.length === 1) return leftParts.includes(rightParts[0]);
+  return false;
+};
+
+// Looser than namesAgree for clustering people across papers: given names are compared position
+// by position, an initial matching any name that starts with it ("J A Smith", "Jane A. Smith",
+// "Jane Smith"). Both names need at least one given name.
+export const namesCompatible = (left: NameParts, right: NameParts) => {
+  if (!surnamesMatch(left.surname, right.surname)) return false;
+  const count = Math.min(left.given.length, right.given.length);
+  if (count === 0) return false;
+  for (let index = 0; index < count; index += 1) {
+    const leftName = left.given[index];
+    const rightName = right.given[index];
+    const matches = leftName.length > 1 && rightName.length > 1 ? leftName === rightName : leftName[0] === rightName[0];
+    if (!matches) return false;
+  }
+  return true;
+};
+
+export const normalizeTitle = (title: string) => foldText(title.replace(/<[^>]+>/g, ' '));
+
+const bigrams = (value: string) => {
+  const pairs = new Set<string>();
+  const compact = value.replace(/ /g, '');
+  for (let index = 0; index < compact.length - 1; index += 1) {
+    pairs.add(compact.slice(index, index + 2));
+  }
+  return pairs;
+};
+
+// Dice coefficient over character bigrams of two normalized titles, from 0 to 1.
+export const titleSimilarity = (left: string, right: string) => {
+  const leftPairs = bigrams(left);
+  const rightPairs = bigrams(right);
+  if (leftPairs.size === 0 || rightPairs.size === 0) return left === right ? 1 : 0;
+  let shared = 0;
+  for (const pair of leftPairs) {
+    if (rightPairs.has(pair)) shared += 1;
+  }
+  return (2 * shared) / (leftPairs.size + rightPairs.size);
+};
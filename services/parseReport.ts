@@ -0,0 +1,54 @@
+import { SkipCounts } from '../types';
+import type { ParsedFile } from './parserClient';
+import { getParser } from './parsers/registry';
+import { SKIP_REASONS, SKIP_REASON_LABELS, totalSkipped } from './parsers/skipReasons';
+import { quoteCSV } from './exportService';
+
+export interface FileReport {
+  fileName: string;
+  format: string;
+  articlesSeen: number;
+  articlesSkipped: number;
+  skipped: SkipCounts;
+  recordsEmitted: number;
+  error?: string;
+}
+
+// One row per parsed input, so an archive gets a row for each of its entries.
+export const buildParseReport = (files: ParsedFile[]): FileReport[] =>
+  files.map(file => ({
+    fileName: file.fileName,
+    format: file.source ? getParser(file.source).name : 'Unknown',
+    articlesSeen: file.totalProcessed,
+    articlesSkipped: totalSkipped(file.skipped),
+    skipped: file.skipped,
+    recordsEmitted: file.records.length,
+    ...(file.error ? { error: file.error } : {})
+  }));
+
+export const buildReportCSV = (report: FileReport[]) => {
+  const headers = [
+    'File',
+    'Format',
+    'Articles Seen',
+    'Articles Skipped',
+    ...SKIP_REASONS.map(reason => `Skipped: ${SKIP_REASON_LABELS[reason]}`),
+    'Records Emitted',
+    'Error'
+  ];
+  const rows = report.map(file =>
+    [
+      file.fileName,
+      file.format,
+      String(file.articlesSeen),
+      String(file.articlesSkipped),
+      ...SKIP_REASONS.map(reason => String(file.skipped[reason] ?? 0)),
+      String(file.recordsEmitted),
+      file.error ?? ''
+    ]
+      .map(quoteCSV)
+      .join(',')
+  );
+  // Same BOM as the records CSV so Excel opens both alike.
+  return `\uFEFF${[headers.join(','), ...rows].join('\n')}`;
+};
@@ -0,0 +1,143 @@
+import { DataSourceType, ExtractedRecord, FileParseProgress, SkipCounts } from '../types';
+
+export interface ParserWorkerRequest {
+  files: File[];
+  // One entry per file; null lets the worker detect that file's format.
+  sources: (DataSourceType | null)[];
+}
+
+// Progress is per uploaded file; results are per parsed input, so an archive reports one per entry.
+// `resultIndex` numbers the inputs across the whole batch in the order they are parsed.
+export type ParserWorkerMessage =
+  | { type: 'progress'; fileIndex: number; progress: FileParseProgress }
+  | { type: 'records'; resultIndex: number; records: ExtractedRecord[] }
+  | {
+      type: 'file';
+      resultIndex: number;
+      fileIndex: number;
+      fileName: string;
+      source: DataSourceType | null;
+      detectedSource: DataSourceType | null;
+      totalProcessed: number;
+      skipped: SkipCounts;
+    }
+  | { type: 'fileError'; resultIndex: number; fileIndex: number; fileName: string; source: DataSourceType | null; message: string }
+  // An archive entry that is not an export (a figure, a PDF) is skipped rather than parsed.
+  | { type: 'skippedEntry'; fileIndex: number; fileName: string; reason: string }
+  | { type: 'done' }
+  | { type: 'error'; message: string };
+
+// One parsed input's outcome. An input that failed has no records, even if it produced some before the error.
+export interface ParsedFile {
+  fileName: string;
+  fileIndex: number; // The upload it came from; archives yield several per upload
+  source: DataSourceType | null; // The source it was parsed as: the assigned one, else the detected one
+  detectedSource: DataSourceType | null;
+  records: ExtractedRecord[];
+  totalProcessed: number;
+  skipped: SkipCounts;
+  error?: string;
+}
+
+export interface ParseBatch {
+  result: Promise<ParsedFile[]>;
+  cancel: () => void;
+}
+
+export const isParseCancelled = (error: unknown) =>
+  error instanceof Error && error.name === 'AbortError';
+
+// Parsing runs in a dedicated worker per batch; cancelling terminates it outright,
+// which is the only way to stop a parser that is busy inside a synchronous loop.
+export const parseFilesInWorker = (
+  files: File[],
+  sources: (DataSourceType | null)[],
+  onProgress: (fileIndex: number, progress: FileParseProgress) => void,
+  onSkippedEntry: (fileName: string, reason: string) => void
+): ParseBatch => {
+  const worker = new Worker(new URL('./parserWorker.ts', import.meta.url), { type: 'module' });
+  let rejectBatch: (reason: Error) => void = () => {};
+
+  const result = new Promise<ParsedFile[]>((resolve, reject) => {
+    rejectBatch = reject;
+    const parsedFiles: ParsedFile[] = [];
+    // Records arrive in batches while an input is still being read.
+    const recordsByResult = new Map<number, ExtractedRecord[]>();
+    const takeRecords = (resultIndex: number) => {
+      const records = recordsByResult.get(resultIndex) ?? [];
+      recordsByResult.delete(resultIndex);
+      return records;
+    };
+
+    worker.onmessage = (event: MessageEvent<ParserWorkerMessage>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress(message.fileIndex, message.progress);
+          break;
+        case 'records': {
+          const records = recordsByResult.get(message.resultIndex);
+          if (records) {
+            records.push(...message.records);
+          } else {
+            recordsByResult.set(message.resultIndex, [...message.records]);
+          }
+          break;
+        }
+        case 'file':
+          parsedFiles[message.resultIndex] = {
+            fileName: message.fileName,
+            fileIndex: message.fileIndex,
+            source: message.source,
+            detectedSource: message.detectedSource,
+            records: takeRecords(message.resultIndex),
+            totalProcessed: message.totalProcessed,
+            skipped: message.skipped
+          };
+          break;
+        case 'fileError':
+          takeRecords(message.resultIndex);
+          parsedFiles[message.resultIndex] = {
+            fileName: message.fileName,
+            fileIndex: message.fileIndex,
+            source: message.source,
+            detectedSource: null,
+            records: [],
+            totalProcessed: 0,
+            skipped: {},
+            error: message.message
+          };
+          break;
+        case 'skippedEntry':
+          onSkippedEntry(message.fileName, message.reason);
+          break;
+        case 'done':
+          worker.terminate();
+          resolve(parsedFiles);
+          break;
+        case 'error':
+          worker.terminate();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = event => {
+      worker.terminate();
+      reject(new Error(event.message || 'The parser worker crashed.'));
+    };
+
+    const request: ParserWorkerRequest = { files, sources };
+    worker.postMessage(request);
+  });
+
+  return {
+    result,
+    cancel: () => {
+      worker.terminate();
+      const cancelled = new Error('Parsing was cancelled.');
+      cancelled.name = 'AbortError';
+      rejectBatch(cancelled);
+    }
+  };
+};
@@ -0,0 +1,128 @@
+import { ExtractedRecord, FileParseProgress } from '../types';
+import { ParseInput, listParseInputs, parseFile } from './fileParser';
+import type { ParserWorkerMessage, ParserWorkerRequest } from './parserClient';
+
+// The DOM lib typings describe window, not a dedicated worker scope.
+interface ParserWorkerScope {
+  onmessage: ((event: MessageEvent<ParserWorkerRequest>) => void) | null;
+  postMessage: (message: ParserWorkerMessage) => void;
+}
+
+const scope = self as unknown as ParserWorkerScope;
+
+// Posting on every stream chunk floods the main thread on large files.
+const PROGRESS_INTERVAL_BYTES = 1024 * 1024;
+const RECORD_BATCH_SIZE = 500;
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : 'Failed to parse file.');
+
+scope.onmessage = async event => {
+  const { files, sources } = event.data;
+  let resultIndex = 0;
+
+  try {
+    for (let fileIndex = 0; fileIndex < files.length; fileIndex += 1) {
+      const file = files[fileIndex];
+      const source = sources[fileIndex] ?? null;
+      const progress: FileParseProgress = {
+        fileName: file.name,
+        status: 'reading',
+        bytesRead: 0,
+        totalBytes: file.size,
+        recordsFound: 0
+      };
+      const report = () => scope.postMessage({ type: 'progress', fileIndex, progress: { ...progress } });
+      report();
+
+      // A file that cannot be parsed is reported and skipped; the rest of the batch carries on.
+      const postFailure = (fileName: string, message: string) => {
+        scope.postMessage({ type: 'fileError', resultIndex, fileIndex, fileName, source, message });
+        resultIndex += 1;
+      };
+
+      let inputs: ParseInput[];
+      try {
+        inputs = await listParseInputs(file, file.name);
+      } catch (error) {
+        progress.status = 'failed';
+        report();
+        postFailure(file.name, errorMessage(error));
+        continue;
+      }
+
+      // An archive's entries are parsed one after another; progress follows the current entry.
+      // Entries that are not exports are listed as skipped, as the CLI does, and are not failures.
+      let failures = 0;
+      for (const input of inputs) {
+        if (input.rejection) {
+          scope.postMessage({ type: 'skippedEntry', fileIndex, fileName: input.name, reason: input.rejection });
+          continue;
+        }
+
+        let pending: ExtractedRecord[] = [];
+        const flushRecords = () => {
+          if (pending.length === 0) return;
+          scope.postMessage({ type: 'records', resultIndex, records: pending });
+          pending = [];
+        };
+
+        let found = 0;
+        let lastReported = 0;
+        try {
+          const blob = await input.open();
+          Object.assign(progress, { fileName: input.name, status: 'reading', bytesRead: 0, totalBytes: blob.size });
+          report();
+
+          const { detectedSource, totalProcessed, skipped } = await parseFile(blob, input.name, source, {
+            onBytesRead: bytesRead => {
+              progress.bytesRead = bytesRead;
+              if (bytesRead - lastReported >= PROGRESS_INTERVAL_BYTES) {
+                lastReported = bytesRead;
+                report();
+              }
+            },
+            onParsing: () => {
+              progress.status = 'parsing';
+              report();
+            },
+            onRecords: records => {
+              found += records.length;
+              progress.recordsFound += records.length;
+              pending.push(...records);
+              if (pending.length >= RECORD_BATCH_SIZE) flushRecords();
+            }
+          });
+          flushRecords();
+
+          scope.postMessage({
+            type: 'file',
+            resultIndex,
+            fileIndex,
+            fileName: input.name,
+            source: source ?? detectedSource,
+            detectedSource,
+            totalProcessed,
+            skipped
+          });
+          resultIndex += 1;
+        } catch (error) {
+          // A failed input adds no rows: its unsent records are dropped, and the client discards
+          // the batches already posted for it.
+          pending = [];
+          progress.recordsFound -= found;
+          failures += 1;
+          postFailure(input.name, errorMessage(error));
+        }
+      }
+
+      progress.fileName = file.name;
+      progress.status = failures > 0 && failures === inputs.filter(input => !input.rejection).length ? 'failed' : 'done';
+      progress.bytesRead = progress.totalBytes;
+      report();
+    }
+
+    scope.postMessage({ type: 'done' });
+  } catch (error) {
+    scope.postMessage({ type: 'error', message: errorMessage(error) });
+  }
+};
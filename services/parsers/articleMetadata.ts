@@ -0,0 +1,56 @@
+import { ArticleMetadata } from '../../types';
+import { normalizeExtractedText } from './textNormalization';
+
+const DOI_REGEX = /\b(10\.\d{4,9}\/[^\s"<>]+)/;
+
+// Accepts "10.1/x", "doi:10.1/x", "https://doi.org/10.1/x" and MEDLINE's "10.1/x [doi]".
+export const normalizeDoi = (value: string | null | undefined) => {
+  const match = normalizeExtractedText(value ?? '').replace(/\s*\[doi\]$/i, '').match(DOI_REGEX);
+  return match ? match[1].replace(/[.,;]+$/, '') : '';
+};
+
+export const normalizePmid = (value: string | null | undefined) => {
+  const match = (value ?? '').trim().match(/^(?:pmid:?\s*)?(\d{1,9})$/i);
+  return match ? match[1] : '';
+};
+
+export const normalizePmcid = (value: string | null | undefined) => {
+  const match = (value ?? '').trim().match(/^(?:pmc(?:id)?:?\s*)?(?:PMC)?(\d{1,9})$/i);
+  return match ? `PMC${match[1]}` : '';
+};
+
+// ORCID iDs appear bare, with an "ORCID:" label or as https://orcid.org/ links; the last
+// character is a checksum that may be X.
+export const normalizeOrcid = (value: string | null | undefined) => {
+  const match = (value ?? '').replace(/[\s-]/g, '').match(/(\d{15}[\dX])(?!\d)/i);
+  return match ? match[1].toUpperCase().replace(/(.{4})(?!$)/g, '$1-') : '';
+};
+
+// Publication dates come as "2021 Mar 5", "2021-03-05", "Spring 2021" or a bare year.
+export const extractYear = (value: string | null | undefined) => {
+  const match = (value ?? '').match(/\b(1[89]\d{2}|20\d{2})\b/);
+  return match ? match[1] : '';
+};
+
+// Normalizes whatever a parser found and drops empty fields, so records only carry real values.
+export const buildArticleMetadata = (raw: {
+  pmid?: string | null;
+  pmcid?: string | null;
+  doi?: string | null;
+  journal?: string | null;
+  year?: string | null;
+}): ArticleMetadata => {
+  const metadata: ArticleMetadata = {};
+  const pmid = normalizePmid(raw.pmid);
+  const pmcid = normalizePmcid(raw.pmcid);
+  const doi = normalizeDoi(raw.doi);
+  const journal = normalizeExtractedText(raw.journal ?? '');
+  const year = extractYear(raw.year);
+
+  if (pmid) metadata.pmid = pmid;
+  if (pmcid) metadata.pmcid = pmcid;
+  if (doi) metadata.doi = doi;
+  if (journal) metadata.journal = journal;
+  if (year) metadata.year = year;
+  return metadata;
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { parseBiorxiv } from './biorxivParser';
+
+const preprint = {
+  title: 'Single-cell atlas of the developing gut',
+  authors: 'Smith, J.; Chen, W.; Lopez, A.',
+  author_corresponding: 'Wei Chen',
+  author_corresponding_institution: 'Harbor Valley University',
+  doi: '10.1101/2024.01.02.123456',
+  date: '2024-01-02',
+  server: 'biorxiv'
+};
+
+describe('parseBiorxiv', () => {
+  it('explains that standard details API JSON has no emails', async () => {
+    await expect(parseBiorxiv(JSON.stringify({ collection: [preprint] }))).rejects.toThrow(
+      /details API JSON has no author emails/
+    );
+  });
+
+  it('labels only the corresponding author\'s row as from the corresponding field', async () => {
+    const result = await parseBiorxiv(JSON.stringify({
+      collection: [{ ...preprint, author_corresponding_email: 'wchen@hvu.edu', author_emails: 'jsmith@hvu.edu' }]
+    }));
+    expect(result.records.map(({ author, email, matchReason, affiliation }) => ({ author, email, matchReason, affiliation })))
+      .toEqual([
+        { author: 'Wei Chen', email: 'wchen@hvu.edu', matchReason: 'corresponding author field', affiliation: 'Harbor Valley University' },
+        { author: 'J Smith', email: 'jsmith@hvu.edu', matchReason: 'initials and surname in local part', affiliation: undefined }
+      ]);
+    expect(result.records[0]).toMatchObject({ doi: '10.1101/2024.01.02.123456', journal: 'bioRxiv', year: '2024' });
+  });
+});
@@ -0,0 +1,145 @@
+import { DataSourceType, ExtractedRecord, ParserResult, ParserStrategy, SkipCounts } from '../../types';
+import { normalizeExtractedText } from './textNormalization';
+import { buildArticleMetadata } from './articleMetadata';
+import { MATCH_REASONS } from './matchConfidence';
+import { buildRecords, extractEmails } from './pubmedTxtParser';
+import { looksLikeBibtex, looksLikeRis } from './citationFormats';
+import { parseBibtexContent, parseRisContent } from './citationParser';
+import { countSkip, skipReasonFor } from './skipReasons';
+
+type BiorxivDetailsRecord = Record<string, unknown>;
+
+const formatServerName = (server: unknown) =>
+  typeof server === 'string' && server.toLowerCase() === 'medrxiv' ? 'medRxiv' : 'bioRxiv';
+
+const inferServerFromText = (value: string) =>
+  /medrxiv/i.test(value) ? 'medRxiv' : 'bioRxiv';
+
+const splitDetailsAuthors = (value: string) =>
+  value
+    .split(';')
+    .map(author => normalizeExtractedText(author))
+    .filter(Boolean);
+
+// The details API does not publish an email column, but some mirrors add
+// `author_corresponding_email`, and institutions occasionally carry one inline. Both belong to the
+// corresponding author; any other email field is scored against the whole author list.
+const collectDetailsEmails = (record: BiorxivDetailsRecord) => {
+  const corresponding: string[] = [];
+  const other: string[] = [];
+  for (const [key, value] of Object.entries(record)) {
+    if (typeof value !== 'string') continue;
+    if (key === 'author_corresponding_institution' || (/email/i.test(key) && /corresponding/i.test(key))) {
+      corresponding.push(...extractEmails(value));
+    } else if (/email/i.test(key)) {
+      other.push(...extractEmails(value));
+    }
+  }
+  return { corresponding, other };
+};
+
+const NO_DETAILS_EMAILS_MESSAGE =
+  'This bioRxiv/medRxiv details API JSON has no author emails: the API does not publish them, so no records ' +
+  'can be extracted from it. Only payloads with an added email field, such as author_corresponding_email, yield records.';
+
+const readDetailsCollection = (content: string): BiorxivDetailsRecord[] => {
+  const payload = JSON.parse(content) as unknown;
+  if (Array.isArray(payload)) return payload;
+  return Array.isArray((payload as { collection?: unknown })?.collection)
+    ? (payload as { collection: BiorxivDetailsRecord[] }).collection
+    : [];
+};
+
+const hasDetailsEmails = (record: BiorxivDetailsRecord) => {
+  const { corresponding, other } = collectDetailsEmails(record);
+  return corresponding.length > 0 || other.length > 0;
+};
+
+const parseDetailsJson = (collection: BiorxivDetailsRecord[]): ParserResult => {
+  const rows: ExtractedRecord[] = [];
+  const uniqueKeys = new Set<string>();
+  const skipped: SkipCounts = {};
+
+  for (const record of collection) {
+    const title = String(record.title ?? '');
+    const corresponding = normalizeExtractedText(String(record.author_corresponding ?? ''));
+    const listedAuthors = splitDetailsAuthors(String(record.authors ?? ''));
+    const authors = listedAuthors.length > 0 ? listedAuthors : corresponding ? [corresponding] : [];
+    const emails = collectDetailsEmails(record);
+
+    const server = formatServerName(record.server);
+    const institution = normalizeExtractedText(String(record.author_corresponding_institution ?? ''));
+    const metadata = buildArticleMetadata({ doi: String(record.doi ?? ''), journal: server, year: String(record.date ?? '') });
+
+    // Only emails from the corresponding author's own fields are theirs outright; without a
+    // corresponding name they are scored like the rest.
+    const correspondingRows = corresponding
+      ? buildRecords(title, [corresponding], emails.corresponding, server, uniqueKeys, {
+        metadata,
+        affiliationFor: () => institution || undefined
+      }).map(row => ({ ...row, ...MATCH_REASONS.correspondingField }))
+      : [];
+    const assigned = new Set(correspondingRows.map(row => row.email.toLowerCase()));
+    const scoredEmails = [...(corresponding ? [] : emails.corresponding), ...emails.other]
+      .filter(email => !assigned.has(email.toLowerCase()));
+    const scoredRows = buildRecords(title, authors, scoredEmails, server, uniqueKeys, {
+      metadata,
+      affiliationFor: author => (institution && author === corresponding ? institution : undefined)
+    });
+
+    const records = [...correspondingRows, ...scoredRows];
+    if (records.length === 0) {
+      countSkip(skipped, skipReasonFor({ title, authors, emails: [...emails.corresponding, ...emails.other] }));
+    }
+    rows.push(...records);
+  }
+
+  return { records: rows, totalProcessed: collection.length, skipped };
+};
+
+export const parseBiorxiv = async (content: string): Promise<ParserResult> => {
+  return new Promise((resolve, reject) => {
+    try {
+      const text = (content ?? '').replace(/^\uFEFF/, '');
+      const trimmed = text.trimStart();
+
+      if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+        const collection = readDetailsCollection(trimmed);
+        // Standard payloads would only show up as every article skipped for lack of an email.
+        if (collection.length > 0 && !collection.some(hasDetailsEmails)) {
+          reject(new Error(NO_DETAILS_EMAILS_MESSAGE));
+          return;
+        }
+        resolve(parseDetailsJson(collection));
+      } else if (looksLikeRis(text)) {
+        resolve(parseRisContent(text, entry =>
+          inferServerFromText([...(entry.JO ?? []), ...(entry.T2 ?? []), ...(entry.UR ?? [])].join(' '))
+        ));
+      } else if (looksLikeBibtex(text)) {
+        resolve(parseBibtexContent(text, ({ fields }) =>
+          inferServerFromText([fields.journal, fields.publisher, fields.url, fields.eprint].filter(Boolean).join(' '))
+        ));
+      } else {
+        reject(new Error('Unrecognized bioRxiv/medRxiv export. Expected details API JSON, RIS, or BibTeX.'));
+      }
+    } catch (error) {
+      console.error(error);
+      reject(new Error('An unexpected error occurred during bioRxiv parsing.', { cause: error }));
+    }
+  });
+};
+
+export const biorxivStrategy: ParserStrategy = {
+  id: DataSourceType.BIORXIV,
+  name: 'bioRxiv',
+  description: 'bioRxiv/medRxiv details API JSON and citation downloads',
+  ui: {
+    formatLabel: 'JSON, RIS & BibTeX',
+    uploadLabel: 'JSON, RIS, or BibTeX files (bioRxiv/medRxiv exports)',
+    parsingLabel: 'Parsing bioRxiv Export...',
+    parsingDetail: 'Extracting corresponding author metadata',
+    acceptTypes: ['.json', '.ris', '.bib', '.txt'],
+    icon: 'flask'
+  },
+  parse: parseBiorxiv
+};
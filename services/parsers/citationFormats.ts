@@ -0,0 +1,168 @@
+import { normalizeExtractedText } from './textNormalization';
+
+export type RisEntry = Record<string, string[]>;
+
+export interface BibtexEntry {
+  type: string;
+  key: string;
+  fields: Record<string, string>;
+}
+
+const RIS_TAG_REGEX = /^([A-Z][A-Z0-9])  -(?: (.*))?$/;
+
+const splitLines = (content: string) =>
+  content
+    .replace(/\uFEFF/g, '')
+    .replace(/\r\n/g, '\n')
+    .replace(/\r/g, '\n')
+    .split('\n');
+
+export const looksLikeRis = (content: string) => /(^|\n)TY  - /.test(content);
+
+export const looksLikeBibtex = (content: string) => /(^|\n)[ \t]*@[a-zA-Z]+\s*[{(]/.test(content);
+
+export const parseRisEntries = (content: string): RisEntry[] => {
+  const entries: RisEntry[] = [];
+  let current: RisEntry | null = null;
+  let lastTag: string | null = null;
+
+  for (const line of splitLines(content)) {
+    const tagMatch = line.match(RIS_TAG_REGEX);
+    if (tagMatch) {
+      const tag = tagMatch[1];
+      const value = (tagMatch[2] ?? '').trim();
+
+      if (tag === 'TY') {
+        if (current) entries.push(current);
+        current = {};
+      }
+      if (!current) continue;
+
+      if (tag === 'ER') {
+        entries.push(current);
+        current = null;
+        lastTag = null;
+        continue;
+      }
+
+      (current[tag] ??= []).push(value);
+      lastTag = tag;
+      continue;
+    }
+
+    // Some exporters wrap long AB/AD values onto untagged continuation lines.
+    const continuation = line.trim();
+    if (current && lastTag && continuation) {
+      const values = current[lastTag];
+      values[values.length - 1] = `${values[values.length - 1]} ${continuation}`.trim();
+    }
+  }
+
+  if (current) entries.push(current);
+  return entries;
+};
+
+const LATEX_ACCENTS: Record<string, string> = {
+  "'": '\u0301',
+  '`': '\u0300',
+  '^': '\u0302',
+  '"': '\u0308',
+  '~': '\u0303',
+  '=': '\u0304',
+  '.': '\u0307',
+  c: '\u0327',
+  v: '\u030C',
+  u: '\u0306',
+  H: '\u030B'
+};
+
+const decodeLatex = (value: string) =>
+  normalizeExtractedText(
+    value
+      .replace(/\{?\\([`'^"~=.]|[cvuH](?=[\s{]))\s*\{?([a-zA-Z])\}?\}?/g, (_, accent: string, letter: string) =>
+        `${letter}${LATEX_ACCENTS[accent] ?? ''}`
+      )
+      .replace(/\\([&%$#_])/g, '$1')
+      // A control word ends at its first space, which LaTeX drops ("Stra\ss e").
+      .replace(/\\ss\b ?/g, '\u00DF')
+      .replace(/[{}]/g, '')
+  );
+
+const readBibtexValue = (body: string, start: number) => {
+  let index = start;
+  while (index < body.length && /\s/.test(body[index])) index += 1;
+
+  const opener = body[index];
+  if (opener === '{' || opener === '"') {
+    const closer = opener === '{' ? '}' : '"';
+    let depth = 0;
+    let cursor = index + 1;
+    for (; cursor < body.length; cursor += 1) {
+      const char = body[cursor];
+      if (char === '\\') {
+        cursor += 1;
+        continue;
+      }
+      if (char === '{') depth += 1;
+      else if (char === '}' && depth > 0) depth -= 1;
+      else if (char === closer && depth === 0) break;
+    }
+    return { value: body.slice(index + 1, cursor), end: cursor + 1 };
+  }
+
+  let cursor = index;
+  while (cursor < body.length && body[cursor] !== ',') cursor += 1;
+  return { value: body.slice(index, cursor).trim(), end: cursor };
+};
+
+const parseBibtexFields = (body: string) => {
+  const fields: Record<string, string> = {};
+  const fieldPattern = /([a-zA-Z][\w-]*)\s*=\s*/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = fieldPattern.exec(body)) !== null) {
+    const name = match[1].toLowerCase();
+    const { value, end } = readBibtexValue(body, fieldPattern.lastIndex);
+    fields[name] = decodeLatex(value);
+    fieldPattern.lastIndex = end;
+  }
+
+  return fields;
+};
+
+export const parseBibtexEntries = (content: string): BibtexEntry[] => {
+  const entries: BibtexEntry[] = [];
+  const entryPattern = /@([a-zA-Z]+)\s*([{(])/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = entryPattern.exec(content)) !== null) {
+    const type = match[1].toLowerCase();
+    const closer = match[2] === '{' ? '}' : ')';
+    const bodyStart = entryPattern.lastIndex;
+
+    let depth = 0;
+    let cursor = bodyStart;
+    for (; cursor < content.length; cursor += 1) {
+      const char = content[cursor];
+      if (char === '{') depth += 1;
+      else if (char === '}' && depth > 0) depth -= 1;
+      else if (char === closer && depth === 0) break;
+    }
+    entryPattern.lastIndex = cursor + 1;
+
+    if (type === 'comment' || type === 'preamble' || type === 'string') continue;
+
+    const body = content.slice(bodyStart, cursor);
+    const keyEnd = body.indexOf(',');
+    const key = keyEnd > -1 ? body.slice(0, keyEnd).trim() : '';
+    entries.push({ type, key, fields: parseBibtexFields(keyEnd > -1 ? body.slice(keyEnd + 1) : body) });
+  }
+
+  return entries;
+};
+
+export const splitBibtexAuthors = (value: string) =>
+  value
+    .split(/\s+and\s+/i)
+    .map(author => normalizeExtractedText(author))
+    .filter(author => author && author.toLowerCase() !== 'others');
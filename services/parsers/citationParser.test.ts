@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { parseBibtexEntries, parseRisEntries } from './citationFormats';
+import { parseCitationFile } from './citationParser';
+
+describe('parseRisEntries', () => {
+  it('appends untagged continuation lines to the previous tag', () => {
+    const [entry] = parseRisEntries([
+      'TY  - JOUR',
+      'TI  - Gut microbiome shifts',
+      '      after antibiotic treatment',
+      'AU  - Smith, Jane',
+      'AU  - Doe, Anna',
+      'AD  - Department of Biology, Example University,',
+      '  Boston, USA. jane.smith@uni.edu',
+      'ER  - '
+    ].join('\r\n'));
+    expect(entry.TI).toEqual(['Gut microbiome shifts after antibiotic treatment']);
+    expect(entry.AU).toEqual(['Smith, Jane', 'Doe, Anna']);
+    expect(entry.AD).toEqual(['Department of Biology, Example University, Boston, USA. jane.smith@uni.edu']);
+  });
+});
+
+describe('parseBibtexEntries', () => {
+  it('reads braced, quoted and bare values, with nested braces and braced quotes', () => {
+    const [entry] = parseBibtexEntries(`@Article{smith2021,
+  title = {The {DNA} of {\\"u}ber-fast {Caf\\'e} bacteria},
+  journal = "Journal of {Examples}",
+  note = "Said {"}hello{"}, {with, commas}",
+  year = 2021,
+}`);
+    expect(entry).toMatchObject({ type: 'article', key: 'smith2021' });
+    expect(entry.fields).toEqual({
+      title: 'The DNA of \u00fcber-fast Caf\u00e9 bacteria',
+      journal: 'Journal of Examples',
+      note: 'Said "hello", with, commas',
+      year: '2021'
+    });
+  });
+
+  it('decodes LaTeX accents with and without braces, and escaped symbols', () => {
+    const [entry] = parseBibtexEntries(String.raw`@article{key, author = {M{\"u}ller, J{\"o}rg and Nu\~{n}ez, Ana and Dvo\v{r}\'ak, Petr and Stra\ss e, Eva}, note = {R\&D 50\%}}`);
+    expect(entry.fields.author).toBe('M\u00fcller, J\u00f6rg and Nu\u00f1ez, Ana and Dvo\u0159\u00e1k, Petr and Stra\u00dfe, Eva');
+    expect(entry.fields.note).toBe('R&D 50%');
+  });
+
+  it('skips @comment, @string and @preamble blocks', () => {
+    const entries = parseBibtexEntries('@comment{jabref-meta: x}\n@string{j = "Gut"}\n@misc(key, title = {Only this})');
+    expect(entries.map(entry => entry.fields.title)).toEqual(['Only this']);
+  });
+});
+
+describe('parseCitationFile', () => {
+  it('maps RIS emails to authors by name', async () => {
+    const result = await parseCitationFile([
+      'TY  - JOUR',
+      'TI  - Soil bacteria',
+      'AU  - Smith, Jane',
+      'AU  - Doe, Anna',
+      'N1  - Correspondence Address: Doe A.; Univ X; email: anna.doe@unix.edu',
+      'DO  - 10.1000/soil.1',
+      'ER  - '
+    ].join('\n'));
+    expect(result.records).toMatchObject([{ author: 'Anna Doe', email: 'anna.doe@unix.edu', doi: '10.1000/soil.1' }]);
+  });
+
+  it('maps BibTeX emails and decodes the author names they match', async () => {
+    const result = await parseCitationFile(String.raw`@article{chen2020,
+  author = {Chen, Wei and G{\"o}rg, Anna},
+  title = {Soil bacteria},
+  email = {anna.goerg@uni.de},
+}`);
+    expect(result.records).toMatchObject([{ author: 'Anna G\u00f6rg', email: 'anna.goerg@uni.de', source: 'BibTeX' }]);
+  });
+});
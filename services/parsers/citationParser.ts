@@ -0,0 +1,143 @@
+import { DataSourceType, ExtractedRecord, ParserResult, ParserStrategy, SkipCounts } from '../../types';
+import { buildArticleMetadata, normalizeDoi } from './articleMetadata';
+import { buildRecords, extractEmails, findEmailSource } from './pubmedTxtParser';
+import {
+  BibtexEntry,
+  RisEntry,
+  looksLikeBibtex,
+  looksLikeRis,
+  parseBibtexEntries,
+  parseRisEntries,
+  splitBibtexAuthors
+} from './citationFormats';
+import { countSkip, skipReasonFor } from './skipReasons';
+
+// Zotero/EndNote put emails in AD; Scopus and Embase put "Correspondence Address: ... email:" in N1.
+const RIS_EMAIL_TAGS = ['AD', 'N1', 'C1', 'M1'];
+const BIBTEX_EMAIL_FIELDS = ['email', 'address', 'note', 'affiliation', 'affiliations', 'correspondence_address'];
+const BIBTEX_AFFILIATION_FIELDS = ['affiliation', 'affiliations', 'correspondence_address'];
+
+const firstMatch = (values: string[], pattern: RegExp) => {
+  for (const value of values) {
+    const match = value.match(pattern);
+    if (match) return match[1];
+  }
+  return '';
+};
+
+// The address line that mentions the email wins. A lone address line is taken as the
+// corresponding author's, since that is usually whose email the export carries.
+const affiliationByEmail = (lines: string[]) => (_author: string, email: string) => {
+  const cleaned = lines.map(line => line.trim()).filter(Boolean);
+  const lower = email.toLowerCase();
+  return cleaned.find(line => line.toLowerCase().includes(lower)) ?? (cleaned.length === 1 ? cleaned[0] : undefined);
+};
+
+// Zotero and EndNote keep PubMed identifiers as "PMID: 123" / "PMCID: PMC456" notes, EndNote
+// also uses AN (with DB - PubMed) and C2 for them.
+const readRisMetadata = (entry: RisEntry) => {
+  const allValues = Object.values(entry).flat();
+  const database = (entry.DB ?? []).join(' ');
+  return buildArticleMetadata({
+    pmid: (/pubmed|medline/i.test(database) ? entry.AN?.[0] : '') || firstMatch(allValues, /\bPMID:\s*(\d+)/i),
+    pmcid: firstMatch(entry.C2 ?? [], /^(PMC\d+)$/i) || firstMatch(allValues, /\bPMCID:\s*(PMC\d+)/i),
+    doi: entry.DO?.[0] || [...(entry.UR ?? []), ...(entry.L3 ?? [])].map(normalizeDoi).find(Boolean),
+    journal: (entry.JO ?? entry.JF ?? entry.T2 ?? entry.JA ?? entry.J2 ?? [])[0],
+    year: (entry.PY ?? entry.Y1 ?? entry.DA ?? [])[0]
+  });
+};
+
+const readBibtexMetadata = ({ fields }: BibtexEntry) =>
+  buildArticleMetadata({
+    pmid: fields.pmid,
+    pmcid: fields.pmcid,
+    doi: fields.doi,
+    journal: fields.journal ?? fields.journaltitle,
+    year: fields.year ?? fields.date
+  });
+
+export const parseRisContent = (content: string, sourceFor: (entry: RisEntry) => string): ParserResult => {
+  const entries = parseRisEntries(content);
+  const rows: ExtractedRecord[] = [];
+  const uniqueKeys = new Set<string>();
+  const skipped: SkipCounts = {};
+
+  for (const entry of entries) {
+    const title = (entry.TI ?? entry.T1 ?? entry.CT ?? []).join(' ');
+    const authors = [...(entry.AU ?? []), ...(entry.A1 ?? [])];
+    const emailLines = RIS_EMAIL_TAGS.flatMap(tag => entry[tag] ?? []);
+    const emails = emailLines.flatMap(extractEmails);
+
+    const records = buildRecords(title, authors, emails, sourceFor(entry), uniqueKeys, {
+      strictMatch: authors.length > 1,
+      metadata: readRisMetadata(entry),
+      affiliationFor: affiliationByEmail(entry.AD ?? []),
+      emailSourceFor: email => findEmailSource(emailLines, email)
+    });
+    if (records.length === 0) countSkip(skipped, skipReasonFor({ title, authors, emails }));
+    rows.push(...records);
+  }
+
+  return { records: rows, totalProcessed: entries.length, skipped };
+};
+
+export const parseBibtexContent = (content: string, sourceFor: (entry: BibtexEntry) => string): ParserResult => {
+  const entries = parseBibtexEntries(content);
+  const rows: ExtractedRecord[] = [];
+  const uniqueKeys = new Set<string>();
+  const skipped: SkipCounts = {};
+
+  for (const entry of entries) {
+    const authors = splitBibtexAuthors(entry.fields.author ?? '');
+    const emailFields = BIBTEX_EMAIL_FIELDS
+      .map(field => entry.fields[field])
+      .filter((value): value is string => !!value);
+    const emails = emailFields.flatMap(extractEmails);
+
+    const title = entry.fields.title ?? '';
+    const records = buildRecords(title, authors, emails, sourceFor(entry), uniqueKeys, {
+      strictMatch: authors.length > 1,
+      metadata: readBibtexMetadata(entry),
+      affiliationFor: affiliationByEmail(BIBTEX_AFFILIATION_FIELDS.map(field => entry.fields[field] ?? '')),
+      emailSourceFor: email => findEmailSource(emailFields, email)
+    });
+    if (records.length === 0) countSkip(skipped, skipReasonFor({ title, authors, emails }));
+    rows.push(...records);
+  }
+
+  return { records: rows, totalProcessed: entries.length, skipped };
+};
+
+export const parseCitationFile = async (content: string): Promise<ParserResult> => {
+  return new Promise((resolve, reject) => {
+    try {
+      const text = (content ?? '').replace(/^\uFEFF/, '');
+
+      if (looksLikeRis(text)) {
+        resolve(parseRisContent(text, entry => entry.DB?.[0] || 'RIS'));
+      } else if (looksLikeBibtex(text)) {
+        resolve(parseBibtexContent(text, entry => entry.fields.source || 'BibTeX'));
+      } else {
+        reject(new Error('Unrecognized citation file. Expected RIS (TY  -) or BibTeX (@article{...}) entries.'));
+      }
+    } catch (error) {
+      console.error(error);
+      reject(new Error('An unexpected error occurred during RIS/BibTeX parsing.', { cause: error }));
+    }
+  });
+};
+
+export const citationStrategy: ParserStrategy = {
+  id: DataSourceType.RIS_BIBTEX,
+  name: 'RIS / BibTeX',
+  description: 'RIS and BibTeX files from Zotero, EndNote, Embase, and Scopus',
+  ui: {
+    formatLabel: 'Reference Manager Exports',
+    uploadLabel: 'RIS or BibTeX files (Zotero, EndNote, Embase, Scopus exports)',
+    parsingLabel: 'Parsing Citation File...',
+    parsingDetail: 'Extracting title, author, and email metadata',
+    acceptTypes: ['.ris', '.bib', '.txt'],
+    icon: 'book'
+  },
+  parse: parseCitationFile
+};
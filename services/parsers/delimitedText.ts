@@ -0,0 +1,110 @@
+// Line-fed reader for tab-delimited exports. A row whose field contains a newline arrives
+// over several lines, so lines are joined until the header's column count is reached.
+export const createTabDelimitedRowReader = (onRow: (columns: string[], headers: string[]) => void) => {
+  let headers: string[] | null = null;
+  let currentRow = '';
+
+  const pushLine = (line: string) => {
+    const rawLine = line.replace(/\uFEFF/g, '');
+
+    if (!headers) {
+      if (rawLine.trim().length > 0) {
+        headers = rawLine.split('\t');
+      }
+      return;
+    }
+
+    if (!rawLine.trim() && !currentRow) return;
+
+    const expectedColumnCount = headers.length;
+    currentRow = currentRow ? `${currentRow}\n${rawLine}` : rawLine;
+    const columns = currentRow.split('\t');
+
+    if (columns.length < expectedColumnCount) {
+      return;
+    }
+
+    if (columns.length > expectedColumnCount) {
+      const fixed = [
+        ...columns.slice(0, expectedColumnCount - 1),
+        columns.slice(expectedColumnCount - 1).join('\t')
+      ];
+      onRow(fixed, headers);
+    } else {
+      onRow(columns, headers);
+    }
+    currentRow = '';
+  };
+
+  const finish = (emptyMessage = 'The file is empty.') => {
+    if (!headers) {
+      throw new Error(emptyMessage);
+    }
+    return headers;
+  };
+
+  return { pushLine, finish };
+};
+
+export const parseTabDelimitedRows = (content: string, emptyMessage = 'The file is empty.') => {
+  const rows: string[][] = [];
+  const reader = createTabDelimitedRowReader(columns => rows.push(columns));
+
+  for (const line of content.replace(/\r\n/g, '\n').replace(/\r/g, '\n').split('\n')) {
+    reader.pushLine(line);
+  }
+
+  return { headers: reader.finish(emptyMessage), rows };
+};
+
+export const parseCsvRows = (content: string, emptyMessage = 'The file is empty.') => {
+  const text = content.replace(/^\uFEFF/, '');
+  const records: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index += 1;
+      row.push(field);
+      records.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    records.push(row);
+  }
+
+  const nonEmpty = records.filter(record => record.some(value => value.trim().length > 0));
+  if (nonEmpty.length === 0) {
+    throw new Error(emptyMessage);
+  }
+
+  const [headers, ...rows] = nonEmpty;
+  return { headers, rows };
+};
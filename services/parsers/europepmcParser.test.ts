@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { parseEuropePMC } from './europepmcParser';
+
+const contrib = (given: string, surname: string, inner = '', corresp = false) =>
+  `<contrib contrib-type="author"${corresp ? ' corresp="yes"' : ''}>
+    <name><surname>${surname}</surname><given-names>${given}</given-names></name>${inner}
+  </contrib>`;
+
+const jatsArticle = (title: string, contribs: string, notes: string, affs = '') => `<article article-type="research-article">
+  <front>
+    <journal-meta><journal-title-group><journal-title>Journal of Examples</journal-title></journal-title-group></journal-meta>
+    <article-meta>
+      <article-id pub-id-type="pmid">31000001</article-id>
+      <article-id pub-id-type="doi">10.1000/example.1</article-id>
+      <title-group><article-title>${title}</article-title></title-group>
+      <contrib-group>${contribs}</contrib-group>
+      ${affs}
+      <author-notes>${notes}</author-notes>
+      <pub-date pub-type="epub"><year>2021</year></pub-date>
+    </article-meta>
+  </front>
+</article>`;
+
+const rowsOf = async (...articles: string[]) => {
+  const { records } = await parseEuropePMC(`<?xml version="1.0"?>\n<pmc-articleset>${articles.join('\n')}</pmc-articleset>`);
+  return records.map(({ title, author, email, affiliation }) => ({ title, author, email, affiliation }));
+};
+
+describe('parseEuropePMC with JATS full text', () => {
+  it('follows xref rids to affiliations and corresponding notes, and claims each email once', async () => {
+    const rows = await rowsOf(jatsArticle(
+      'Mapping examples.',
+      contrib('Jane', 'Smith', '<xref ref-type="aff" rid="aff1">1</xref><xref ref-type="corresp" rid="cor1">*</xref>') +
+        contrib('Anna', 'Lopez', '<xref ref-type="aff" rid="aff2">2</xref><email>anna.lopez@uni.edu</email>'),
+      // Lopez's own address is repeated in the note Smith cites; it stays hers.
+      '<corresp id="cor1">Correspondence: <email>jane.smith@uni.edu</email>; <email>anna.lopez@uni.edu</email></corresp>',
+      '<aff id="aff1"><label>1</label>Department of Biology, Example University</aff>' +
+        '<aff id="aff2"><label>2</label>Institute of Chemistry, Other University</aff>'
+    ));
+    expect(rows).toEqual([
+      { title: 'Mapping examples', author: 'Anna Lopez', email: 'anna.lopez@uni.edu', affiliation: 'Institute of Chemistry, Other University' },
+      { title: 'Mapping examples', author: 'Jane Smith', email: 'jane.smith@uni.edu', affiliation: 'Department of Biology, Example University' }
+    ]);
+  });
+
+  it('scores a corresponding note no contributor cites against every author', async () => {
+    const rows = await rowsOf(jatsArticle(
+      'Orphan notes',
+      contrib('Jane', 'Smith') + contrib('Wei', 'Chen'),
+      '<corresp>E-mail: wei.chen@uni.edu</corresp>'
+    ));
+    expect(rows.map(({ author, email }) => ({ author, email }))).toEqual([{ author: 'Wei Chen', email: 'wei.chen@uni.edu' }]);
+  });
+
+  it('gives an unmatched note address to the sole corresp="yes" author', async () => {
+    const rows = await rowsOf(jatsArticle(
+      'Lab addresses',
+      contrib('Jane', 'Smith') + contrib('Wei', 'Chen', '', true),
+      '<corresp>Address correspondence to the lab: <email>office@lab.org</email></corresp>'
+    ));
+    expect(rows.map(({ author, email }) => ({ author, email }))).toEqual([{ author: 'Wei Chen', email: 'office@lab.org' }]);
+  });
+});
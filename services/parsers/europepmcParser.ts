@@ -1,5 +1,11 @@
-import { ExtractedRecord, ParserResult } from '../../types';
+import { DataSourceType, ExtractedRecord, ParserResult, ParserStrategy, SkipCounts } from '../../types';
 import { normalizeExtractedText, trimTrailingFullStop } from './textNormalization';
+import { extractJatsRecords, isJatsArticle } from './jatsParser';
+import { buildArticleMetadata, normalizeOrcid } from './articleMetadata';
+import { MATCH_REASONS, strongestMatch } from './matchConfidence';
+import { describeNameMatch } from './pubmedTxtParser';
+import { XmlElement, childrenNamed, findAll, findFirst, getAttribute, getTextContent, parseXml } from './xmlTree';
+import { countSkip, skipReasonFor } from './skipReasons';
 
 // Regex matching the Python one: r"[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}"
 const EMAIL_REGEX = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g;
@@ -7,18 +13,18 @@ const EMAIL_REGEX = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g;
 export const parseEuropePMC = async (xmlContent: string): Promise<ParserResult> => {
   return new Promise((resolve, reject) => {
     try {
-      const parser = new DOMParser();
-      const xmlDoc = parser.parseFromString(xmlContent, "text/xml");
-      
-      // Check for parsing errors
-      const parseError = xmlDoc.querySelector("parsererror");
-      if (parseError) {
+      let xmlDoc: XmlElement;
+      try {
+        xmlDoc = parseXml(xmlContent);
+      } catch (parseError) {
+        console.error(parseError);
         reject(new Error("Invalid XML format or file is corrupted."));
         return;
       }
 
       const rows: ExtractedRecord[] = [];
       const uniqueKeys = new Set<string>(); // For deduplication
+      const skipped: SkipCounts = {};
       
       // Get all article nodes. In Europe PMC XML, usually under <result> or <article> depending on exact export
       // We will search for nodes that contain author lists to be safe, or iterate all descendents.
@@ -33,45 +39,74 @@ export const parseEuropePMC = async (xmlContent: string): Promise<ParserResult>
       
       // A more specific approach based on Europe PMC standard XML export:
       // Usually <resultList><result>...</result></resultList>
-      let articles = Array.from(xmlDoc.querySelectorAll("result"));
+      let articles = findAll(xmlDoc, "result");
       
       // Fallback if structure is different (e.g. full text XML)
       if (articles.length === 0) {
-        articles = Array.from(xmlDoc.querySelectorAll("article"));
+        articles = findAll(xmlDoc, "article");
       }
 
       for (const article of articles) {
-        const authors = article.querySelectorAll("author");
-        if (authors.length === 0) continue;
+        // Full-text exports (fullTextXML, PMC OA bundles) are JATS and use <contrib> rather than <author>.
+        if (isJatsArticle(article)) {
+          rows.push(...extractJatsRecords(article, 'Europe PMC', uniqueKeys, skipped));
+          continue;
+        }
+
+        const authors = findAll(article, "author");
+        if (authors.length === 0) {
+          countSkip(skipped, 'noAuthors');
+          continue;
+        }
 
         // Find Title
         // Python: matches 'title' in tag name and has text.
         let title = "";
-        const allArticleDescendants = article.querySelectorAll("*");
+        const allArticleDescendants = findAll(article, () => true);
         
         for (let i = 0; i < allArticleDescendants.length; i++) {
           const el = allArticleDescendants[i];
-          if (el.tagName.toLowerCase().includes("title") && el.textContent?.trim()) {
-            title = trimTrailingFullStop(el.textContent ?? '');
+          if (el.name.toLowerCase().includes("title") && getTextContent(el).trim()) {
+            title = trimTrailingFullStop(getTextContent(el));
             break; // Found the first title-like element
           }
         }
 
-        if (!title) continue; // Filter empty titles per requirement
+        if (!title) { // Filter empty titles per requirement
+          countSkip(skipped, 'noTitle');
+          continue;
+        }
+
+        // Core result lists put the journal under journalInfo; lite ones use journalTitle.
+        const childValue = (name: string) => getTextContent(childrenNamed(article, name)[0]);
+        const journalInfo = childrenNamed(article, "journalInfo")[0];
+        const metadata = buildArticleMetadata({
+          pmid: childValue("pmid"),
+          pmcid: childValue("pmcid"),
+          doi: childValue("doi"),
+          journal: childValue("journalTitle") || getTextContent(findFirst(findFirst(journalInfo, "journal"), "title")),
+          year: childValue("pubYear") || getTextContent(findFirst(journalInfo, "yearOfPublication"))
+        });
+
+        // Emails only ever come from affiliations, so an article without any cannot yield records.
+        const rowsBefore = rows.length;
+        const articleAffiliations: string[] = [];
+        const articleEmails: string[] = [];
 
         // Process Authors
         for (let i = 0; i < authors.length; i++) {
           const author = authors[i];
           let firstName: string | null = null;
           let lastName: string | null = null;
+          let orcid = '';
           const affiliations: string[] = [];
 
-          const authorDescendants = author.querySelectorAll("*");
+          const authorDescendants = findAll(author, () => true);
           
           for (let j = 0; j < authorDescendants.length; j++) {
             const el = authorDescendants[j];
-            const tag = el.tagName.toLowerCase();
-            const text = normalizeExtractedText(el.textContent ?? '');
+            const tag = el.name.toLowerCase();
+            const text = normalizeExtractedText(getTextContent(el));
 
             if (!text) continue;
 
@@ -81,9 +116,12 @@ export const parseEuropePMC = async (xmlContent: string): Promise<ParserResult>
               lastName = text;
             } else if (tag.endsWith("affiliation")) {
               affiliations.push(text);
+            } else if (tag.endsWith("authorid") && getAttribute(el, "type")?.toUpperCase() === "ORCID") {
+              orcid = normalizeOrcid(text);
             }
           }
 
+          articleAffiliations.push(...affiliations);
           if (firstName && lastName && affiliations.length > 0) {
             const fullName = normalizeExtractedText(`${firstName} ${lastName}`);
 
@@ -91,6 +129,7 @@ export const parseEuropePMC = async (xmlContent: string): Promise<ParserResult>
               const emails = aff.match(EMAIL_REGEX);
               
               if (emails) {
+                articleEmails.push(...emails);
                 for (const email of emails) {
                   const recordKey = `${title}|${fullName}|${email}`;
                   
@@ -102,7 +141,12 @@ export const parseEuropePMC = async (xmlContent: string): Promise<ParserResult>
                       title,
                       author: fullName,
                       email: email,
-                      source: 'Europe PMC'
+                      source: 'Europe PMC',
+                      ...metadata,
+                      affiliation: aff,
+                      ...(orcid ? { orcid } : {}),
+                      // The address sits in this author's own affiliation; a name match only adds to that.
+                      ...strongestMatch(describeNameMatch(email, fullName), MATCH_REASONS.ownAffiliation)!
                     });
                   }
                 }
@@ -110,16 +154,36 @@ export const parseEuropePMC = async (xmlContent: string): Promise<ParserResult>
             }
           }
         }
+
+        if (rows.length === rowsBefore) {
+          countSkip(skipped, skipReasonFor({ title, authors, emails: articleEmails, affiliations: articleAffiliations }));
+        }
       }
 
       resolve({
         records: rows,
-        totalProcessed: articles.length
+        totalProcessed: articles.length,
+        skipped
       });
 
     } catch (e) {
       console.error(e);
-      reject(new Error("An unexpected error occurred during parsing."));
+      reject(new Error("An unexpected error occurred during parsing.", { cause: e }));
     }
   });
 };
+
+export const europePmcStrategy: ParserStrategy = {
+  id: DataSourceType.EUROPE_PMC,
+  name: 'Europe PMC',
+  description: 'Europe PMC search results and full-text JATS XML',
+  ui: {
+    formatLabel: 'XML Exports',
+    uploadLabel: 'XML files only (Europe PMC search results or full-text JATS)',
+    parsingLabel: 'Parsing XML Structure...',
+    parsingDetail: 'Extracting author metadata',
+    acceptTypes: ['.xml', '.nxml'],
+    icon: 'database'
+  },
+  parse: parseEuropePMC
+};
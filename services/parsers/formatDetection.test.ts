@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { DataSourceType } from '../../types';
+import { detectFileSource } from '../fileParser';
+import { detectSourceType } from './formatDetection';
+
+// Enough rows after the signal to fill the 64 KB the detector reads.
+const padded = (head: string, row: string) => head + row.repeat(Math.ceil((64 * 1024) / row.length));
+
+const cases: [string, string, DataSourceType | null][] = [
+  [
+    'Europe PMC resultList',
+    padded('<?xml version="1.0" encoding="UTF-8"?>\n<responseWrapper><resultList>', '<result><pmid>1</pmid></result>'),
+    DataSourceType.EUROPE_PMC
+  ],
+  [
+    'PubmedArticleSet behind a DOCTYPE',
+    padded(
+      '<?xml version="1.0"?>\n<!DOCTYPE PubmedArticleSet PUBLIC "-//NLM//DTD PubMedArticle//EN" "pubmed.dtd">\n<PubmedArticleSet>',
+      '<PubmedArticle><MedlineCitation><PMID>1</PMID></MedlineCitation></PubmedArticle>'
+    ),
+    DataSourceType.PUBMED
+  ],
+  [
+    'JATS article with a namespaced root',
+    padded('<!-- PMC OA -->\n<jats:article xmlns:jats="http://jats.nlm.nih.gov" article-type="research-article">', '<p>Text.</p>'),
+    DataSourceType.EUROPE_PMC
+  ],
+  ['MEDLINE PMID- tags', padded('PMID- 31000001\nOWN - NLM\n', 'AU  - Smith J\n'), DataSourceType.PUBMED],
+  ['MDPI tab headers', padded('Title\tAuthor\tEmail\tAffiliation\n', 'A title\tJane Smith\tj.smith@uni.edu\tUniv X\n'), DataSourceType.MDPI],
+  ['RIS TY  - tags', padded('TY  - JOUR\nTI  - A title\nJO  - Gut\n', 'AU  - Smith, J\n'), DataSourceType.RIS_BIBTEX],
+  ['BibTeX entries', padded('@article{smith2021,\n  title = {A title},\n  journal = {Gut},\n', '  note = {x},\n'), DataSourceType.RIS_BIBTEX],
+  [
+    'Scopus CSV',
+    padded('Authors,Title,Year,"Correspondence Address"\n', 'Smith J.,A title,2021,"Smith J.; email: j.smith@uni.edu"\n'),
+    DataSourceType.SCOPUS
+  ],
+  ['Web of Science tab-delimited', padded('PT\tAU\tAF\tTI\tEM\n', 'J\tSmith, J\tSmith, Jane\tA title\tj.smith@uni.edu\n'), DataSourceType.WEB_OF_SCIENCE],
+  [
+    'Web of Science plain text',
+    padded('FN Clarivate Analytics Web of Science\nVR 1.0\nPT J\nAF Smith, Jane\n', '   Doe, Anna\n'),
+    DataSourceType.WEB_OF_SCIENCE
+  ],
+  ['bioRxiv details JSON', padded('{"messages":[{"status":"ok"}],"collection":[', '{"doi":"10.1101/1"},'), DataSourceType.BIORXIV],
+  ['bioRxiv RIS', padded('TY  - JOUR\nT2  - bioRxiv\n', 'AU  - Smith, J\n'), DataSourceType.BIORXIV],
+  ['a UTF-8 BOM', padded('\uFEFFPMID- 31000001\n', 'AU  - Smith J\n'), DataSourceType.PUBMED],
+  ['an unknown file', padded('Just some notes\n', 'nothing to see here\n'), null],
+  ['a signal past the 64 KB head', `${'\n'.repeat(64 * 1024)}PMID- 31000001\n`, null]
+];
+
+describe('detectSourceType', () => {
+  it.each(cases)('detects %s', (_, head, expected) => {
+    expect(detectSourceType(head)).toBe(expected);
+  });
+});
+
+describe('detectFileSource', () => {
+  it('decodes a UTF-16 file before sniffing it', async () => {
+    const text = padded('\uFEFFTitle\tAuthor\tEmail\n', 'A title\tJane M\u00fcller\tj.muller@uni.edu\n');
+    const bytes = new Uint8Array(text.length * 2);
+    for (let index = 0; index < text.length; index += 1) {
+      bytes[index * 2] = text.charCodeAt(index) & 0xff;
+      bytes[index * 2 + 1] = text.charCodeAt(index) >> 8;
+    }
+    expect(await detectFileSource(new Blob([bytes]))).toBe(DataSourceType.MDPI);
+  });
+});
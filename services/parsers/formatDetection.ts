@@ -0,0 +1,104 @@
+import { DataSourceType } from '../../types';
+import { looksLikeBibtex, looksLikeRis } from './citationFormats';
+
+// Only the head of the file is inspected so detection stays cheap on large exports.
+const SNIFF_LENGTH = 64 * 1024;
+
+const PREPRINT_SERVER_REGEX = /\b(?:bio|med)rxiv\b/i;
+
+// bioRxiv/medRxiv citation downloads only differ from generic RIS/BibTeX by their venue.
+const allVenuesArePreprints = (head: string) => {
+  const venues = Array.from(head.matchAll(/(?:^|\n)(?:JO|JF|T2)  - (.*)|\bjournal\s*=\s*[{"]([^}"]*)/gi))
+    .map(match => match[1] ?? match[2] ?? '');
+  return venues.length > 0 && venues.every(venue => PREPRINT_SERVER_REGEX.test(venue));
+};
+
+const getXmlRootElement = (head: string) => {
+  const withoutProlog = head
+    .replace(/<\?[\s\S]*?\?>/g, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<!DOCTYPE[^>[]*(?:\[[\s\S]*?\])?\s*>/gi, '');
+  const match = withoutProlog.match(/<([A-Za-z_][\w.:-]*)/);
+  return match ? match[1].replace(/^.*:/, '') : null;
+};
+
+const detectXml = (head: string): DataSourceType | null => {
+  const root = getXmlRootElement(head);
+  if (!root) return null;
+
+  switch (root) {
+    case 'PubmedArticleSet':
+    case 'PubmedArticle':
+      return DataSourceType.PUBMED;
+    case 'responseWrapper':
+    case 'resultList':
+    case 'result':
+    case 'article':
+    case 'pmc-articleset':
+    case 'OAI-PMH':
+      return DataSourceType.EUROPE_PMC;
+    default:
+      return null;
+  }
+};
+
+const firstLine = (head: string) => head.split(/\r?\n/).find(line => line.trim().length > 0) ?? '';
+
+const detectDelimited = (head: string): DataSourceType | null => {
+  const header = firstLine(head);
+
+  if (header.includes('\t')) {
+    const columns = header.split('\t').map(column => column.trim());
+    const upper = new Set(columns.map(column => column.toUpperCase()));
+    if (upper.has('PT') && upper.has('TI') && (upper.has('AF') || upper.has('AU'))) {
+      return DataSourceType.WEB_OF_SCIENCE;
+    }
+    const lower = new Set(columns.map(column => column.toLowerCase()));
+    if (lower.has('author') && lower.has('email') && lower.has('title')) {
+      return DataSourceType.MDPI;
+    }
+  }
+
+  if (header.includes(',') && /(^|,)"?correspondence address"?(,|$)/i.test(header)) {
+    return DataSourceType.SCOPUS;
+  }
+
+  return null;
+};
+
+export const detectSourceType = (content: string): DataSourceType | null => {
+  const head = (content ?? '').slice(0, SNIFF_LENGTH).replace(/^\uFEFF/, '');
+  const trimmed = head.trimStart();
+
+  if (trimmed.startsWith('<')) {
+    return detectXml(trimmed);
+  }
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    return /"collection"\s*:|"author_corresponding"\s*:/.test(trimmed) ? DataSourceType.BIORXIV : null;
+  }
+
+  if (/(^|\n)PMID- /.test(head)) {
+    return DataSourceType.PUBMED;
+  }
+
+  if (looksLikeRis(head) || looksLikeBibtex(head)) {
+    return allVenuesArePreprints(head) ? DataSourceType.BIORXIV : DataSourceType.RIS_BIBTEX;
+  }
+
+  // Web of Science plain-text exports open with "FN Clarivate Analytics Web of Science".
+  if (/^FN /.test(trimmed) && /(^|\n)PT /.test(head)) {
+    return DataSourceType.WEB_OF_SCIENCE;
+  }
+
+  const delimited = detectDelimited(trimmed);
+  if (delimited) return delimited;
+
+  // PubMed "Abstract (text)" exports carry these headings but no MEDLINE tags. Only spaces and tabs
+  // may lead the line: \s would rescan every following blank line from each newline.
+  if (/(^|\n)[ \t]*(?:Author information:|PMID:\s*\d+)/i.test(head)) {
+    return DataSourceType.PUBMED;
+  }
+
+  return null;
+};
@@ -0,0 +1,161 @@
+import { ExtractedRecord, SkipCounts } from '../../types';
+import { normalizeExtractedText, trimTrailingFullStop } from './textNormalization';
+import { buildArticleMetadata, normalizeOrcid } from './articleMetadata';
+import { buildRecords, extractEmails } from './pubmedTxtParser';
+import { XmlElement, findAll, findFirst, getAttribute, getTextContent } from './xmlTree';
+import { countSkip, skipReasonFor } from './skipReasons';
+
+// JATS (Europe PMC fullTextXML, PMC OA bundles) keeps author emails in three places:
+// directly on <contrib>, in <author-notes><corresp>, and occasionally inside <aff>.
+// Contributors point at the latter two through <xref rid="...">, so we follow those
+// references and score each note's emails against the authors that cite it.
+
+const elementText = (element: XmlElement | null | undefined) =>
+  normalizeExtractedText(getTextContent(element));
+
+const emailsIn = (element: XmlElement) => {
+  const tagged = findAll(element, 'email').flatMap(email => extractEmails(getTextContent(email)));
+  return tagged.length > 0 ? tagged : extractEmails(getTextContent(element));
+};
+
+const formatContribName = (contrib: XmlElement) => {
+  const name = findFirst(contrib, 'name');
+  if (name) {
+    const surname = elementText(findFirst(name, 'surname'));
+    const givenNames = elementText(findFirst(name, 'given-names'));
+    return normalizeExtractedText(`${givenNames} ${surname}`);
+  }
+  return elementText(findFirst(contrib, 'string-name'));
+};
+
+// <aff> starts with a <label> ("1", "a") that is not part of the affiliation itself.
+const affiliationText = (aff: XmlElement) =>
+  normalizeExtractedText(
+    aff.childNodes
+      .map(node => (typeof node === 'string' ? node : node.name === 'label' ? '' : getTextContent(node)))
+      .join('')
+  );
+
+const readArticleMetadata = (article: XmlElement, meta: XmlElement) => {
+  const articleIds = findAll(meta, 'article-id');
+  const articleId = (...types: string[]) =>
+    elementText(articleIds.find(element => types.includes(getAttribute(element, 'pub-id-type') ?? '')));
+  const journalMeta = findFirst(article, 'journal-meta');
+  const pubDates = findAll(meta, 'pub-date');
+  const pubDate =
+    pubDates.find(date => /^(?:epub|ppub)$/.test(getAttribute(date, 'pub-type') ?? getAttribute(date, 'date-type') ?? '')) ??
+    pubDates[0];
+
+  return buildArticleMetadata({
+    pmid: articleId('pmid'),
+    pmcid: articleId('pmc', 'pmcid'),
+    doi: articleId('doi'),
+    journal: elementText(findFirst(journalMeta, 'journal-title')) || elementText(findFirst(journalMeta, 'abbrev-journal-title')),
+    year: elementText(findFirst(pubDate, 'year'))
+  });
+};
+
+export const isJatsArticle = (article: XmlElement) => findFirst(article, 'contrib') !== null;
+
+export const extractJatsRecords = (article: XmlElement, source: string, uniqueKeys: Set<string>, skipped: SkipCounts = {}) => {
+  const rows: ExtractedRecord[] = [];
+  const meta = findFirst(findFirst(article, 'front'), 'article-meta') ?? article;
+  const title = trimTrailingFullStop(getTextContent(findFirst(findFirst(meta, 'title-group'), 'article-title')));
+  if (!title) {
+    countSkip(skipped, 'noTitle');
+    return rows;
+  }
+
+  const elementsById = new Map<string, XmlElement>();
+  for (const element of findAll(article, element => 'id' in element.attributes)) {
+    const id = getAttribute(element, 'id');
+    if (id && !elementsById.has(id)) elementsById.set(id, element);
+  }
+
+  const metadata = readArticleMetadata(article, meta);
+  const affiliationsByAuthor = new Map<string, string[]>();
+  const affiliationFor = (author: string) => affiliationsByAuthor.get(author)?.join('; ') || undefined;
+  const orcidsByAuthor = new Map<string, string>();
+
+  // An address cited from several places (contrib and corresp note) belongs to one author only.
+  const claimedEmails = new Set<string>();
+  const seenEmails = new Set<string>();
+  const emit = (candidates: string[], emails: string[]) => {
+    emails.forEach(email => seenEmails.add(email.toLowerCase()));
+    const unclaimed = emails.filter(email => !claimedEmails.has(email.toLowerCase()));
+    const records = buildRecords(title, candidates, unclaimed, source, uniqueKeys, {
+      strictMatch: candidates.length > 1,
+      metadata,
+      affiliationFor,
+      orcidFor: author => orcidsByAuthor.get(author)
+    });
+    for (const record of records) claimedEmails.add(record.email.toLowerCase());
+    rows.push(...records);
+  };
+
+  const authors: string[] = [];
+  const correspondingAuthors: string[] = [];
+  const citingAuthors = new Map<XmlElement, string[]>();
+
+  const contribs = findAll(meta, 'contrib').filter(contrib => {
+    const type = getAttribute(contrib, 'contrib-type');
+    return !type || type === 'author';
+  });
+
+  // Affiliations are collected before any record is emitted so each row can carry its author's.
+  const allAffiliations = findAll(meta, 'aff');
+  for (const contrib of contribs) {
+    const name = formatContribName(contrib);
+    if (!name) continue;
+    authors.push(name);
+    if (getAttribute(contrib, 'corresp') === 'yes') correspondingAuthors.push(name);
+    const orcid = normalizeOrcid(
+      getTextContent(findAll(contrib, 'contrib-id').find(id => getAttribute(id, 'contrib-id-type') === 'orcid'))
+    );
+    if (orcid && !orcidsByAuthor.has(name)) orcidsByAuthor.set(name, orcid);
+
+    const affiliations = findAll(contrib, 'aff');
+    for (const xref of findAll(contrib, 'xref')) {
+      for (const rid of (getAttribute(xref, 'rid') ?? '').split(/\s+/).filter(Boolean)) {
+        const target = elementsById.get(rid);
+        if (!target) continue;
+        if (target.name === 'aff') affiliations.push(target);
+        const citing = citingAuthors.get(target) ?? [];
+        if (!citing.includes(name)) citing.push(name);
+        citingAuthors.set(target, citing);
+      }
+    }
+
+    // Single-affiliation papers often leave the one <aff> unreferenced.
+    if (affiliations.length === 0 && allAffiliations.length === 1) affiliations.push(allAffiliations[0]);
+    const texts = Array.from(new Set(affiliations.map(affiliationText).filter(Boolean)));
+    if (texts.length > 0 && !affiliationsByAuthor.has(name)) affiliationsByAuthor.set(name, texts);
+  }
+
+  for (const contrib of contribs) {
+    const name = formatContribName(contrib);
+    if (name) emit([name], emailsIn(contrib));
+  }
+
+  for (const [target, citing] of citingAuthors.entries()) {
+    emit(citing, emailsIn(target));
+  }
+
+  // Corresponding-author notes that no contributor links to still name their owner
+  // in free text: score them against every author, and hand anything left over to a
+  // sole corresp="yes" author who has not been given an address yet.
+  const orphanNotes = findAll(meta, 'author-notes')
+    .flatMap(notes => findAll(notes, 'corresp'))
+    .filter(note => !citingAuthors.has(note));
+  for (const note of orphanNotes) {
+    emit(authors, emailsIn(note));
+  }
+
+  const soleCorresponding = correspondingAuthors.length === 1 ? correspondingAuthors[0] : null;
+  if (soleCorresponding && !rows.some(row => row.author === soleCorresponding)) {
+    emit([soleCorresponding], orphanNotes.flatMap(emailsIn));
+  }
+
+  if (rows.length === 0) countSkip(skipped, skipReasonFor({ title, authors, emails: Array.from(seenEmails) }));
+  return rows;
+};
@@ -0,0 +1,39 @@
+import { MatchDetails } from '../../types';
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
+// Confidence is a 0-100 estimate of how likely the email really belongs to the author.
+// Anything below the medium threshold is a guess that should be checked before use.
+export const CONFIDENCE_THRESHOLDS: Record<Exclude<ConfidenceLevel, 'low'>, number> = {
+  high: 80,
+  medium: 50
+};
+
+// Assignments that do not come from comparing the email with the author's name.
+export const MATCH_REASONS = {
+  electronicAddress: { confidence: 95, matchReason: 'electronic address tag' },
+  correspondingField: { confidence: 95, matchReason: 'corresponding author field' },
+  soleAuthor: { confidence: 90, matchReason: 'sole author' },
+  ownAffiliation: { confidence: 85, matchReason: 'email in author affiliation' },
+  correspondingAuthor: { confidence: 70, matchReason: 'corresponding author' },
+  sharedAffiliation: { confidence: 40, matchReason: 'shared affiliation, first listed author' },
+  indexFallback: { confidence: 30, matchReason: 'index fallback' },
+  firstAuthorFallback: { confidence: 20, matchReason: 'first author fallback' }
+} satisfies Record<string, MatchDetails>;
+
+// Name scores run from 85 (given name only) to 120 (the local part is exactly the surname).
+export const nameMatchDetails = (score: number, reason: string): MatchDetails => ({
+  confidence: score >= 110 ? 90 : score >= 100 ? 80 : score >= 90 ? 70 : 60,
+  matchReason: reason
+});
+
+export const strongestMatch = (...matches: (MatchDetails | null | undefined)[]) =>
+  matches
+    .filter((match): match is MatchDetails => !!match)
+    .reduce<MatchDetails | null>((best, match) => (!best || match.confidence > best.confidence ? match : best), null);
+
+export const getConfidenceLevel = (confidence: number): ConfidenceLevel =>
+  confidence >= CONFIDENCE_THRESHOLDS.high ? 'high' : confidence >= CONFIDENCE_THRESHOLDS.medium ? 'medium' : 'low';
+
+// Matches below the medium threshold are held back for review instead of going straight to export.
+export const needsReview = (match: MatchDetails) => match.confidence < CONFIDENCE_THRESHOLDS.medium;
@@ -1,5 +1,10 @@
-import { ExtractedRecord, ParserResult } from '../../types';
+import { DataSourceType, ExtractedRecord, MatchDetails, ParserResult, ParserStrategy, SkipCounts } from '../../types';
 import { normalizeExtractedText, trimTrailingFullStop } from './textNormalization';
+import { createTabDelimitedRowReader, parseTabDelimitedRows } from './delimitedText';
+import { buildArticleMetadata } from './articleMetadata';
+import { MATCH_REASONS, needsReview, strongestMatch } from './matchConfidence';
+import { describeNameMatch } from './pubmedTxtParser';
+import { countSkip, skipReasonFor } from './skipReasons';
 
 const EMAIL_REGEX = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g;
 
@@ -33,123 +38,177 @@ const splitAuthors = (value: string) =>
 const splitEmails = (value: string) =>
   dedupe((value.match(EMAIL_REGEX) ?? []).map(email => email.trim()).filter(Boolean));
 
+// MDPI lists authors and emails in separate cells, so pairs are positional. Each pair is
+// checked against the author's name, and a pair the name does not back is marked as a guess.
 const pairAuthorsAndEmails = (authors: string[], emails: string[]) => {
   if (authors.length === 0 || emails.length === 0) return [];
 
+  const pair = (author: string, email: string, fallback: MatchDetails) => ({
+    author,
+    email,
+    match: strongestMatch(describeNameMatch(email, author), fallback)!
+  });
+
   if (authors.length === emails.length) {
-    return authors.map((author, index) => ({ author, email: emails[index] }));
+    return authors.map((author, index) =>
+      pair(author, emails[index], authors.length === 1 ? MATCH_REASONS.soleAuthor : MATCH_REASONS.indexFallback)
+    );
   }
 
   if (authors.length === 1) {
-    return emails.map(email => ({ author: authors[0], email }));
+    return emails.map(email => pair(authors[0], email, MATCH_REASONS.soleAuthor));
   }
 
   if (emails.length === 1) {
-    return [{ author: authors[0], email: emails[0] }];
+    return [pair(authors[0], emails[0], MATCH_REASONS.firstAuthorFallback)];
   }
 
   const pairCount = Math.min(authors.length, emails.length);
-  return Array.from({ length: pairCount }, (_, index) => ({
-    author: authors[index],
-    email: emails[index]
-  }));
+  return Array.from({ length: pairCount }, (_, index) => pair(authors[index], emails[index], MATCH_REASONS.indexFallback));
 };
 
-const parseTabDelimitedRows = (content: string) => {
-  const lines = content
-    .replace(/\uFEFF/g, '')
-    .replace(/\r\n/g, '\n')
-    .replace(/\r/g, '\n')
-    .split('\n');
-
-  const headerLine = lines.find(line => line.trim().length > 0);
-  if (!headerLine) {
-    throw new Error('The MDPI TXT file is empty.');
+// Optional columns; the first header present wins.
+const METADATA_HEADERS = {
+  pmid: ['pmid', 'pubmed id'],
+  doi: ['doi'],
+  journal: ['journal', 'journal name', 'source title'],
+  year: ['year', 'publication year', 'publication date', 'published']
+};
+const AFFILIATION_HEADERS = ['affiliation', 'affiliations'];
+
+const createMdpiRowConverter = (headers: string[], skipped: SkipCounts = {}) => {
+  const headerMap = headers.reduce<Record<string, number>>((acc, header, index) => {
+    acc[normalizeHeader(header)] = index;
+    return acc;
+  }, {});
+
+  const authorIndex = headerMap.author;
+  const emailIndex = headerMap.email;
+  const titleIndex = headerMap.title;
+
+  if (authorIndex === undefined || emailIndex === undefined || titleIndex === undefined) {
+    throw new Error(
+      'Missing required MDPI columns. Expected tab-delimited headers for Author, Email, and Title.'
+    );
   }
 
-  const headerIndex = lines.indexOf(headerLine);
-  const headers = headerLine.split('\t');
-  const expectedColumnCount = headers.length;
-
-  const rows: string[][] = [];
-  let currentRow = '';
-
-  for (const rawLine of lines.slice(headerIndex + 1)) {
-    if (!rawLine.trim() && !currentRow) continue;
-
-    currentRow = currentRow ? `${currentRow}\n${rawLine}` : rawLine;
-    const columns = currentRow.split('\t');
-
-    if (columns.length < expectedColumnCount) {
-      continue;
+  const uniqueKeys = new Set<string>();
+  const findColumn = (candidates: string[]) =>
+    candidates.map(header => headerMap[header]).find(index => index !== undefined);
+  const metadataColumns = Object.fromEntries(
+    Object.entries(METADATA_HEADERS).map(([field, candidates]) => [field, findColumn(candidates)])
+  ) as Record<keyof typeof METADATA_HEADERS, number | undefined>;
+  const affiliationIndex = findColumn(AFFILIATION_HEADERS);
+  const cell = (row: string[], index: number | undefined) => (index === undefined ? '' : row[index] ?? '');
+
+  return (row: string[]) => {
+    const records: ExtractedRecord[] = [];
+    const title = trimTrailingFullStop(row[titleIndex] ?? '');
+    const authors = splitAuthors(row[authorIndex] ?? '');
+    const emails = splitEmails(row[emailIndex] ?? '');
+    const metadata = buildArticleMetadata({
+      pmid: cell(row, metadataColumns.pmid),
+      doi: cell(row, metadataColumns.doi),
+      journal: cell(row, metadataColumns.journal),
+      year: cell(row, metadataColumns.year)
+    });
+    // Affiliations line up with authors when the export gives one per author, otherwise the
+    // whole cell is kept for every row.
+    const affiliationCell = normalizeWhitespace(cell(row, affiliationIndex));
+    const affiliations = affiliationCell.split(';').map(part => normalizeWhitespace(part));
+    const affiliationFor = (author: string) =>
+      affiliations.length === authors.length ? affiliations[authors.indexOf(author)] : affiliationCell;
+
+    for (const pair of pairAuthorsAndEmails(authors, emails)) {
+      if (!title || !pair.author || !pair.email) continue;
+
+      const recordKey = `${title}|${pair.author}|${pair.email}`;
+      if (uniqueKeys.has(recordKey)) continue;
+      uniqueKeys.add(recordKey);
+
+      const affiliation = affiliationFor(pair.author);
+      const review = needsReview(pair.match)
+        ? { review: { authors, emails, ...(affiliationCell ? { emailSource: affiliationCell } : {}) } }
+        : {};
+      records.push({
+        id: crypto.randomUUID(),
+        title,
+        author: pair.author,
+        email: pair.email,
+        source: 'MDPI',
+        ...metadata,
+        ...(affiliation ? { affiliation } : {}),
+        ...pair.match,
+        ...review
+      });
     }
 
-    if (columns.length > expectedColumnCount) {
-      const fixed = [
-        ...columns.slice(0, expectedColumnCount - 1),
-        columns.slice(expectedColumnCount - 1).join('\t')
-      ];
-      rows.push(fixed);
-    } else {
-      rows.push(columns);
-    }
-    currentRow = '';
-  }
-
-  return { headers, rows };
+    if (records.length === 0) countSkip(skipped, skipReasonFor({ title, authors, emails }));
+    return records;
+  };
 };
 
 export const parseMdpiTxt = async (txtContent: string): Promise<ParserResult> => {
   return new Promise((resolve, reject) => {
     try {
-      const { headers, rows } = parseTabDelimitedRows(txtContent ?? '');
-      const headerMap = headers.reduce<Record<string, number>>((acc, header, index) => {
-        acc[normalizeHeader(header)] = index;
-        return acc;
-      }, {});
-
-      const authorIndex = headerMap.author;
-      const emailIndex = headerMap.email;
-      const titleIndex = headerMap.title;
-
-      if (authorIndex === undefined || emailIndex === undefined || titleIndex === undefined) {
-        throw new Error(
-          'Missing required MDPI columns. Expected tab-delimited headers for Author, Email, and Title.'
-        );
-      }
-
-      const uniqueKeys = new Set<string>();
-      const records: ExtractedRecord[] = [];
-      let totalProcessed = 0;
-
-      for (const row of rows) {
-        totalProcessed += 1;
-
-        const title = trimTrailingFullStop(row[titleIndex] ?? '');
-        const authors = splitAuthors(row[authorIndex] ?? '');
-        const emails = splitEmails(row[emailIndex] ?? '');
+      const { headers, rows } = parseTabDelimitedRows(txtContent ?? '', 'The MDPI TXT file is empty.');
+      const skipped: SkipCounts = {};
+      const convertRow = createMdpiRowConverter(headers, skipped);
+      const records = rows.flatMap(convertRow);
 
-        for (const pair of pairAuthorsAndEmails(authors, emails)) {
-          if (!title || !pair.author || !pair.email) continue;
-
-          const recordKey = `${title}|${pair.author}|${pair.email}`;
-          if (uniqueKeys.has(recordKey)) continue;
-          uniqueKeys.add(recordKey);
-
-          records.push({
-            id: crypto.randomUUID(),
-            title,
-            author: pair.author,
-            email: pair.email,
-            source: 'MDPI'
-          });
-        }
-      }
-
-      resolve({ records, totalProcessed });
+      resolve({ records, totalProcessed: rows.length, skipped });
     } catch (error) {
       console.error(error);
-      reject(new Error('An unexpected error occurred during MDPI TXT parsing.'));
+      reject(new Error('An unexpected error occurred during MDPI TXT parsing.', { cause: error }));
     }
   });
 };
+
+export const parseMdpiLines = async (
+  lineBatches: AsyncIterable<string[]>,
+  onRecords: (records: ExtractedRecord[]) => void
+): Promise<Omit<ParserResult, 'records'>> => {
+  try {
+    let convertRow: ((row: string[]) => ExtractedRecord[]) | null = null;
+    let totalProcessed = 0;
+    const skipped: SkipCounts = {};
+
+    const reader = createTabDelimitedRowReader((row, headers) => {
+      convertRow ??= createMdpiRowConverter(headers, skipped);
+      totalProcessed += 1;
+      const records = convertRow(row);
+      if (records.length > 0) {
+        onRecords(records);
+      }
+    });
+
+    for await (const lines of lineBatches) {
+      for (const line of lines) {
+        reader.pushLine(line);
+      }
+    }
+
+    // Validates the header even when the file has no data rows.
+    createMdpiRowConverter(reader.finish('The MDPI TXT file is empty.'));
+    return { totalProcessed, skipped };
+  } catch (error) {
+    console.error(error);
+    throw new Error('An unexpected error occurred during MDPI TXT parsing.', { cause: error });
+  }
+};
+
+export const mdpiStrategy: ParserStrategy = {
+  id: DataSourceType.MDPI,
+  name: 'MDPI',
+  description: 'MDPI tab-delimited article exports',
+  ui: {
+    formatLabel: 'TXT Exports',
+    uploadLabel: 'TXT files only (MDPI tab-delimited format)',
+    parsingLabel: 'Parsing MDPI TXT...',
+    parsingDetail: 'Extracting title, author, and email metadata',
+    acceptTypes: ['.txt'],
+    icon: 'file-text'
+  },
+  parse: parseMdpiTxt,
+  parseLines: parseMdpiLines
+};
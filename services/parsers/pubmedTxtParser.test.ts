@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { parsePubMedLines, parsePubMedTxt } from './pubmedTxtParser';
+
+async function* batchesOf(text: string) {
+  yield text.split('\n');
+}
+
+const pubmedXml = (articleIds: string, references = '') => `<?xml version="1.0"?>
+<PubmedArticleSet>
+  <PubmedArticle>
+    <MedlineCitation>
+      <PMID Version="1">31000001</PMID>
+      <Article>
+        <Journal>
+          <JournalIssue><PubDate><Year>2021</Year></PubDate></JournalIssue>
+          <Title>Journal of Examples</Title>
+          <ISOAbbreviation>J Ex</ISOAbbreviation>
+        </Journal>
+        <ArticleTitle>Mapping examples across exports.</ArticleTitle>
+        <AuthorList>
+          <Author ValidYN="Y">
+            <LastName>Smith</LastName>
+            <ForeName>Jane</ForeName>
+            <Initials>J</Initials>
+            <AffiliationInfo>
+              <Affiliation>Department of Biology, Example University. jane.smith@example.edu</Affiliation>
+            </AffiliationInfo>
+          </Author>
+        </AuthorList>
+      </Article>
+    </MedlineCitation>
+    <PubmedData>
+      <ArticleIdList>${articleIds}</ArticleIdList>
+      ${references}
+    </PubmedData>
+  </PubmedArticle>
+</PubmedArticleSet>`;
+
+const citedReference = `<ReferenceList>
+  <Reference>
+    <Citation>A cited work.</Citation>
+    <ArticleIdList>
+      <ArticleId IdType="doi">10.9999/cited.1</ArticleId>
+      <ArticleId IdType="pmc">PMC9999999</ArticleId>
+    </ArticleIdList>
+  </Reference>
+</ReferenceList>`;
+
+describe('parsePubMedTxt', () => {
+  it('reads article metadata from PubMed XML', async () => {
+    const result = await parsePubMedTxt(pubmedXml(
+      '<ArticleId IdType="pubmed">31000001</ArticleId><ArticleId IdType="doi">10.1000/own.1</ArticleId>' +
+      '<ArticleId IdType="pmc">PMC1000001</ArticleId>'
+    ));
+    expect(result.records).toHaveLength(1);
+    expect(result.records[0]).toMatchObject({
+      email: 'jane.smith@example.edu',
+      pmid: '31000001',
+      pmcid: 'PMC1000001',
+      doi: '10.1000/own.1',
+      journal: 'J Ex',
+      year: '2021'
+    });
+  });
+
+  it('does not take identifiers from cited references', async () => {
+    const result = await parsePubMedTxt(pubmedXml('<ArticleId IdType="pubmed">31000001</ArticleId>', citedReference));
+    expect(result.records[0].pmid).toBe('31000001');
+    expect(result.records[0].doi).toBeFalsy();
+    expect(result.records[0].pmcid).toBeFalsy();
+  });
+
+  it('reports corrupted PubMed XML as such', async () => {
+    const corrupted = '<PubmedArticleSet><PubmedArticle><MedlineCitation></PubmedArticle>';
+    await expect(parsePubMedTxt(corrupted)).rejects.toThrow('Invalid PubMed XML format or file is corrupted.');
+    await expect(parsePubMedLines(batchesOf(corrupted), () => {})).rejects.toThrow(
+      'Invalid PubMed XML format or file is corrupted.'
+    );
+  });
+});
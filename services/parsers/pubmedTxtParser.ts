@@ -1,5 +1,17 @@
-import { ExtractedRecord, ParserResult } from '../../types';
+import {
+  ArticleMetadata,
+  DataSourceType,
+  ExtractedRecord,
+  MatchDetails,
+  ParserResult,
+  ParserStrategy,
+  SkipCounts
+} from '../../types';
 import { normalizeExtractedText, trimTrailingFullStop } from './textNormalization';
+import { buildArticleMetadata, normalizeOrcid } from './articleMetadata';
+import { MATCH_REASONS, nameMatchDetails, needsReview, strongestMatch } from './matchConfidence';
+import { XmlElement, childrenNamed, findAll, findFirst, getAttribute, getTextContent, parseXml } from './xmlTree';
+import { countSkip, skipReasonFor } from './skipReasons';
 
 const EMAIL_REGEX = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g;
 const NON_AUTHOR_CONTACT_REGEX = /(?:permission|permissions|reprint|reprints|membership|epub)/i;
@@ -74,6 +86,15 @@ const getShortNameSignals = (shortName: string) => {
   return { compact, initials, initialBeforeSurname, surnameBeforeInitial };
 };
 
+type NameMatch = { score: number; reason: string };
+
+const SURNAME = 'surname in local part';
+const PARTIAL_SURNAME = 'partial surname in local part';
+const GIVEN_NAME = 'given name in local part';
+const INITIALS = 'initials in local part';
+const INITIALS_AND_SURNAME = 'initials and surname in local part';
+const SHORT_NAME = 'short name in local part';
+
 const scoreAuthorEmailMatch = (email: string, authorName: string, shortNames: string[] = []) => {
   const local = email.split('@')[0] ?? '';
   const localAlnum = normalizeForMatch(local);
@@ -81,71 +102,100 @@ const scoreAuthorEmailMatch = (email: string, authorName: string, shortNames: st
   const localAlphaTokens = getAlphaTokens(local);
   const { lastName, givenNames, givenInitials, allInitials } = getAuthorNameSignals(authorName);
 
-  let score = 0;
+  let best: NameMatch = { score: 0, reason: '' };
+  const consider = (score: number, reason: string) => {
+    if (score > best.score) best = { score, reason };
+  };
 
   for (const token of localTokens) {
     if (!token) continue;
-    if (token === lastName) score = Math.max(score, 120);
-    if (lastName && token.startsWith(lastName)) score = Math.max(score, 110);
-    if (lastName && token.endsWith(lastName)) score = Math.max(score, 105);
-    if (lastName && lastName.startsWith(token) && token.length >= 4) score = Math.max(score, 95);
-    if (lastName && lastName.length >= 4 && token.includes(lastName)) score = Math.max(score, 90);
-    if (givenNames.includes(token)) score = Math.max(score, 85);
-    if (allInitials && token === allInitials && token.length >= 2) score = Math.max(score, 108);
-    if (givenInitials && lastName && token === `${givenInitials}${lastName}`) score = Math.max(score, 112);
-    if (givenInitials && lastName && token === `${lastName}${givenInitials}`) score = Math.max(score, 110);
+    if (token === lastName) consider(120, SURNAME);
+    if (lastName && token.startsWith(lastName)) consider(110, SURNAME);
+    if (lastName && token.endsWith(lastName)) consider(105, SURNAME);
+    if (lastName && lastName.startsWith(token) && token.length >= 4) consider(95, PARTIAL_SURNAME);
+    if (lastName && lastName.length >= 4 && token.includes(lastName)) consider(90, SURNAME);
+    if (givenNames.includes(token)) consider(85, GIVEN_NAME);
+    if (allInitials && token === allInitials && token.length >= 2) consider(108, INITIALS);
+    if (givenInitials && lastName && token === `${givenInitials}${lastName}`) consider(112, INITIALS_AND_SURNAME);
+    if (givenInitials && lastName && token === `${lastName}${givenInitials}`) consider(110, INITIALS_AND_SURNAME);
     if (
       givenInitials &&
       lastName &&
       givenInitials.length >= 1 &&
       token === `${givenInitials[0]}${lastName}`
     ) {
-      score = Math.max(score, 111);
+      consider(111, INITIALS_AND_SURNAME);
     }
   }
 
   for (const token of localAlphaTokens) {
     const normalized = normalizeForMatch(token);
     if (!normalized) continue;
-    if (allInitials && normalized === allInitials) score = Math.max(score, 108);
-    if (lastName && normalized.startsWith(lastName)) score = Math.max(score, 110);
-    if (lastName && normalized.endsWith(lastName)) score = Math.max(score, 105);
+    if (allInitials && normalized === allInitials) consider(108, INITIALS);
+    if (lastName && normalized.startsWith(lastName)) consider(110, SURNAME);
+    if (lastName && normalized.endsWith(lastName)) consider(105, SURNAME);
   }
 
   for (const shortName of shortNames) {
     const { compact, initials, initialBeforeSurname, surnameBeforeInitial } = getShortNameSignals(shortName);
-    if (compact && localAlnum.includes(compact)) score = Math.max(score, 114);
-    if (initials && initials.length >= 2 && localAlnum.includes(initials)) score = Math.max(score, 102);
-    if (initialBeforeSurname && localAlnum.includes(initialBeforeSurname)) score = Math.max(score, 116);
-    if (surnameBeforeInitial && localAlnum.includes(surnameBeforeInitial)) score = Math.max(score, 113);
+    if (compact && localAlnum.includes(compact)) consider(114, SHORT_NAME);
+    if (initials && initials.length >= 2 && localAlnum.includes(initials)) consider(102, INITIALS);
+    if (initialBeforeSurname && localAlnum.includes(initialBeforeSurname)) consider(116, INITIALS_AND_SURNAME);
+    if (surnameBeforeInitial && localAlnum.includes(surnameBeforeInitial)) consider(113, INITIALS_AND_SURNAME);
   }
 
-  return score;
+  return best;
+};
+
+// Confidence and reason for tying an email to one given author by name alone, or null when
+// the local part says nothing about that author.
+export const describeNameMatch = (email: string, authorName: string, shortNames?: string[]) => {
+  const { score, reason } = scoreAuthorEmailMatch(email, authorName, shortNames);
+  return score > 0 ? nameMatchDetails(score, reason) : null;
 };
 
 const findAuthorMatch = (email: string, authors: string[], unusedAuthors?: Set<string>) => {
   let best: string | null = null;
-  let bestScore = -1;
+  let bestMatch: NameMatch = { score: -1, reason: '' };
 
   for (const author of authors) {
     if (unusedAuthors && !unusedAuthors.has(author)) continue;
-    const score = scoreAuthorEmailMatch(email, author);
-    if (score > bestScore) {
+    const match = scoreAuthorEmailMatch(email, author);
+    if (match.score > bestMatch.score) {
       best = author;
-      bestScore = score;
+      bestMatch = match;
     }
   }
 
-  return bestScore > 0 ? best : null;
+  return best && bestMatch.score > 0 ? { author: best, match: nameMatchDetails(bestMatch.score, bestMatch.reason) } : null;
 };
 
-const buildRecords = (
+// Optional article metadata and a lookup for the raw affiliation of the author a record goes to.
+// The email is passed too, since some exports only tie an address line to an email.
+// emailSourceFor names the text an email was found in, shown when the match goes to review.
+export interface RecordDetails {
+  metadata?: ArticleMetadata;
+  affiliationFor?: (author: string, email: string) => string | undefined;
+  orcidFor?: (author: string) => string | undefined;
+  emailSourceFor?: (email: string) => string | undefined;
+}
+
+// The first text that mentions the email, compared case-insensitively.
+export const findEmailSource = (texts: string[], email: string) => {
+  const lower = email.toLowerCase();
+  return texts.map(text => normalizeWhitespace(text)).find(text => text.toLowerCase().includes(lower));
+};
+
+const reviewContext = (match: MatchDetails, authors: string[], emails: string[], emailSource?: string) =>
+  needsReview(match) ? { review: { authors, emails, ...(emailSource ? { emailSource } : {}) } } : {};
+
+export const buildRecords = (
   title: string,
   authors: string[],
   emails: string[],
   source: string,
   uniqueKeys: Set<string>,
-  options?: { strictMatch?: boolean }
+  options?: RecordDetails & { strictMatch?: boolean; indexFallback?: boolean }
 ) => {
   const rows: ExtractedRecord[] = [];
   const normalizedTitle = trimTrailingFullStop(title);
@@ -163,10 +213,12 @@ const buildRecords = (
   }
 
   const unusedAuthors = new Set(cleanedAuthors);
-  const indexFallback = cleanedEmails.length === cleanedAuthors.length;
+  const indexFallback = (options?.indexFallback ?? true) && cleanedEmails.length === cleanedAuthors.length;
 
   for (const email of cleanedEmails) {
-    let author = findAuthorMatch(email, cleanedAuthors, unusedAuthors);
+    const named = findAuthorMatch(email, cleanedAuthors, unusedAuthors);
+    let author = named?.author ?? null;
+    let match: MatchDetails | null = named?.match ?? null;
     if (author && unusedAuthors.has(author)) {
       unusedAuthors.delete(author);
     } else if (!author && indexFallback) {
@@ -174,34 +226,102 @@ const buildRecords = (
       const indexAuthor = cleanedAuthors[index];
       if (indexAuthor && unusedAuthors.has(indexAuthor)) {
         author = indexAuthor;
+        match = cleanedAuthors.length === 1 ? MATCH_REASONS.soleAuthor : MATCH_REASONS.indexFallback;
         unusedAuthors.delete(indexAuthor);
       }
     }
 
     if (!author && cleanedAuthors.length === 1) {
       author = cleanedAuthors[0];
+      match = MATCH_REASONS.soleAuthor;
     } else if (!author && !strictMatch) {
       author = cleanedAuthors[0];
+      match = MATCH_REASONS.firstAuthorFallback;
     }
 
-    if (!author) continue;
+    if (!author || !match) continue;
 
     const recordKey = `${normalizedTitle}|${author}|${email}`;
     if (uniqueKeys.has(recordKey)) continue;
     uniqueKeys.add(recordKey);
+    const affiliation = options?.affiliationFor?.(author, email);
+    const orcid = normalizeOrcid(options?.orcidFor?.(author));
     rows.push({
       id: crypto.randomUUID(),
       title: normalizedTitle,
       author,
       email,
-      source
+      source,
+      ...options?.metadata,
+      ...(affiliation ? { affiliation } : {}),
+      ...(orcid ? { orcid } : {}),
+      ...match,
+      ...reviewContext(match, cleanedAuthors, cleanedEmails, options?.emailSourceFor?.(email) ?? affiliation)
     });
   }
 
   return rows;
 };
 
-const extractEmails = (text: string) => {
+const matchesCorrespondingName = (author: string, correspondingNames: string[]) => {
+  const { lastName } = getAuthorNameSignals(author);
+  if (!lastName) return false;
+  return correspondingNames.some(name =>
+    getAlphaTokens(name).map(token => normalizeForMatch(token)).includes(lastName)
+  );
+};
+
+// Score-only assignment for exports that list authors and emails separately (Scopus,
+// Web of Science). Emails that match no author by name go to the corresponding author
+// when the export names exactly one of them, never to an author picked by position.
+export const buildCorrespondenceRecords = (
+  title: string,
+  authors: string[],
+  emails: string[],
+  correspondingNames: string[],
+  source: string,
+  uniqueKeys: Set<string>,
+  details?: RecordDetails
+) => {
+  const rows = buildRecords(title, authors, emails, source, uniqueKeys, {
+    ...details,
+    strictMatch: true,
+    indexFallback: false
+  });
+
+  const assigned = new Set(rows.map(row => row.email.toLowerCase()));
+  const leftover = emails.filter(email => !assigned.has(email.trim().toLowerCase()));
+  if (leftover.length === 0) return rows;
+
+  const corresponding = dedupe(
+    authors.map(formatAuthorName).filter(author => matchesCorrespondingName(author, correspondingNames))
+  );
+  if (corresponding.length === 1) {
+    // A lone candidate reads as "sole author" to buildRecords; here it is only the corresponding author.
+    rows.push(
+      ...buildRecords(title, corresponding, leftover, source, uniqueKeys, details).map(row =>
+        row.matchReason === MATCH_REASONS.soleAuthor.matchReason ? { ...row, ...MATCH_REASONS.correspondingAuthor } : row
+      )
+    );
+  }
+
+  return rows;
+};
+
+// Affiliation lists keyed by author name (Scopus "Authors with affiliations", WoS C1) are
+// matched on last name. When two different people share it, nothing is returned.
+export const findAffiliationByName = (author: string, entries: { name: string; affiliation: string }[]) => {
+  const { lastName } = getAuthorNameSignals(author);
+  if (!lastName) return undefined;
+
+  const matches = entries.filter(entry =>
+    getAlphaTokens(entry.name).map(token => normalizeForMatch(token)).includes(lastName)
+  );
+  if (dedupe(matches.map(entry => normalizeForMatch(entry.name))).length !== 1) return undefined;
+  return dedupe(matches.map(entry => entry.affiliation).filter(Boolean)).join('; ') || undefined;
+};
+
+export const extractEmails = (text: string) => {
   const matches = text.match(EMAIL_REGEX);
   return matches ? matches : [];
 };
@@ -221,141 +341,203 @@ const extractElectronicEmails = (affiliations: string[]) => {
   return emails;
 };
 
-const parseMedline = (text: string): ParserResult => {
+type AffiliatedAuthor = { name: string; shortNames: string[]; affiliations: string[]; orcid?: string };
+
+const buildAffiliatedAuthorRecords = (
+  title: string,
+  authors: AffiliatedAuthor[],
+  source: string,
+  uniqueKeys: Set<string>,
+  metadata: ArticleMetadata = {}
+) => {
   const rows: ExtractedRecord[] = [];
-  const uniqueKeys = new Set<string>();
-  let totalProcessed = 0;
+  const preparedAuthors = authors
+    .map(author => {
+      const formattedName = formatAuthorName(author.name);
+      if (!formattedName) return null;
+
+      const normalizedShortNames = dedupe(
+        author.shortNames.map(value => normalizeWhitespace(value)).filter(Boolean)
+      );
+      const electronicEmails = extractElectronicEmails(author.affiliations);
+      const affiliationEmails = extractEmails(author.affiliations.join(' '));
+      const candidateEmails = dedupe(
+        (electronicEmails.length > 0 ? electronicEmails : affiliationEmails)
+          .map(email => email.trim().toLowerCase())
+          .filter(Boolean)
+          .filter(email => !isNonAuthorContactEmail(email))
+      );
+
+      return {
+        name: formattedName,
+        shortNames: normalizedShortNames,
+        affiliation: normalizeWhitespace(author.affiliations.join('; ')),
+        orcid: normalizeOrcid(author.orcid),
+        candidateEmails,
+        electronicTagged: electronicEmails.length > 0
+      };
+    })
+    .filter((author): author is NonNullable<typeof author> => !!author);
+
+  if (preparedAuthors.length === 0) {
+    return rows;
+  }
 
-  let titleParts: string[] = [];
-  let authors: { name: string; shortNames: string[]; affiliations: string[] }[] = [];
-  let currentAuthor: { name: string; shortNames: string[]; affiliations: string[] } | null = null;
-  let currentTag: 'TI' | 'FAU' | 'AU' | 'AD' | null = null;
+  const emailToOwnerIndices = new Map<string, Set<number>>();
+  preparedAuthors.forEach((author, index) => {
+    for (const email of author.candidateEmails) {
+      if (!emailToOwnerIndices.has(email)) {
+        emailToOwnerIndices.set(email, new Set<number>());
+      }
+      emailToOwnerIndices.get(email)!.add(index);
+    }
+  });
 
-  const flushRecord = () => {
-    const hasContent = titleParts.length > 0 || authors.length > 0;
-    if (!hasContent) return;
+  // An address found in exactly one author's affiliation is theirs; one repeated across a
+  // shared affiliation line only narrows it down to those authors.
+  const ownershipMatch = (author: (typeof preparedAuthors)[number], ownerIndices: Set<number>) => {
+    if (ownerIndices.size > 1) return MATCH_REASONS.sharedAffiliation;
+    return author.electronicTagged ? MATCH_REASONS.electronicAddress : MATCH_REASONS.ownAffiliation;
+  };
 
-    totalProcessed += 1;
+  const assignEmailToAuthor = (email: string, ownerIndices: Set<number>) => {
+    let bestIndex = -1;
+    let bestScore = -1;
+    let bestName: NameMatch = { score: 0, reason: '' };
+
+    for (let index = 0; index < preparedAuthors.length; index += 1) {
+      const author = preparedAuthors[index];
+      const name = scoreAuthorEmailMatch(email, author.name, author.shortNames);
+      let score = name.score;
+      if (ownerIndices.has(index)) {
+        score += 2;
+      }
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = index;
+        bestName = name;
+      }
+    }
 
-    const title = trimTrailingFullStop(titleParts.join(' '));
-    if (!title) {
-      titleParts = [];
-      authors = [];
-      currentAuthor = null;
-      currentTag = null;
-      return;
+    if (bestIndex >= 0 && bestScore > 0) {
+      const author = preparedAuthors[bestIndex];
+      const match = strongestMatch(
+        bestName.score > 0 ? nameMatchDetails(bestName.score, bestName.reason) : null,
+        ownerIndices.has(bestIndex) ? ownershipMatch(author, ownerIndices) : null
+      );
+      return { author, match: match! };
     }
 
-    const preparedAuthors = authors
-      .map(author => {
-        const formattedName = formatAuthorName(author.name);
-        if (!formattedName) return null;
-
-        const normalizedShortNames = dedupe(
-          author.shortNames.map(value => normalizeWhitespace(value)).filter(Boolean)
-        );
-        const electronicEmails = extractElectronicEmails(author.affiliations);
-        const affiliationEmails = extractEmails(author.affiliations.join(' '));
-        const candidateEmails = dedupe(
-          (electronicEmails.length > 0 ? electronicEmails : affiliationEmails)
-            .map(email => email.trim().toLowerCase())
-            .filter(Boolean)
-            .filter(email => !isNonAuthorContactEmail(email))
-        );
-
-        return {
-          name: formattedName,
-          shortNames: normalizedShortNames,
-          candidateEmails
-        };
-      })
-      .filter((author): author is { name: string; shortNames: string[]; candidateEmails: string[] } => !!author);
-
-    if (preparedAuthors.length === 0) {
-      titleParts = [];
-      authors = [];
-      currentAuthor = null;
-      currentTag = null;
-      return;
+    if (ownerIndices.size === 1) {
+      const onlyOwner = preparedAuthors[Array.from(ownerIndices)[0]];
+      return onlyOwner ? { author: onlyOwner, match: ownershipMatch(onlyOwner, ownerIndices) } : null;
     }
 
-    const emailToOwnerIndices = new Map<string, Set<number>>();
-    preparedAuthors.forEach((author, index) => {
-      for (const email of author.candidateEmails) {
-        if (!emailToOwnerIndices.has(email)) {
-          emailToOwnerIndices.set(email, new Set<number>());
-        }
-        emailToOwnerIndices.get(email)!.add(index);
-      }
-    });
+    if (preparedAuthors.length === 1) {
+      return { author: preparedAuthors[0], match: MATCH_REASONS.soleAuthor };
+    }
 
-    const assignEmailToAuthor = (email: string, ownerIndices: Set<number>) => {
-      let bestIndex = -1;
-      let bestScore = -1;
+    return null;
+  };
 
-      for (let index = 0; index < preparedAuthors.length; index += 1) {
-        const author = preparedAuthors[index];
-        let score = scoreAuthorEmailMatch(email, author.name, author.shortNames);
-        if (ownerIndices.has(index)) {
-          score += 2;
-        }
-        if (score > bestScore) {
-          bestScore = score;
-          bestIndex = index;
-        }
-      }
+  for (const [email, ownerIndices] of emailToOwnerIndices.entries()) {
+    const assigned = assignEmailToAuthor(email, ownerIndices);
+    if (!assigned) continue;
+    const { author, match } = assigned;
 
-      if (bestIndex >= 0 && bestScore > 0) {
-        return preparedAuthors[bestIndex].name;
-      }
+    const recordKey = `${title}|${author.name}|${email}`;
+    if (uniqueKeys.has(recordKey)) continue;
+    uniqueKeys.add(recordKey);
+    rows.push({
+      id: crypto.randomUUID(),
+      title,
+      author: author.name,
+      email,
+      source,
+      ...metadata,
+      ...(author.affiliation ? { affiliation: author.affiliation } : {}),
+      ...(author.orcid ? { orcid: author.orcid } : {}),
+      ...match,
+      ...reviewContext(
+        match,
+        preparedAuthors.map(candidate => candidate.name),
+        Array.from(emailToOwnerIndices.keys()),
+        findEmailSource(authors.flatMap(candidate => candidate.affiliations), email)
+      )
+    });
+  }
 
-      if (ownerIndices.size === 1) {
-        const onlyOwner = Array.from(ownerIndices)[0];
-        return preparedAuthors[onlyOwner]?.name ?? null;
-      }
+  return rows;
+};
 
-      if (preparedAuthors.length === 1) {
-        return preparedAuthors[0].name;
-      }
+// MEDLINE and PubMed XML only carry emails inside author affiliations.
+const affiliatedSkipReason = (title: string, authors: AffiliatedAuthor[]) => {
+  const affiliations = authors.flatMap(author => author.affiliations);
+  return skipReasonFor({ title, authors, emails: affiliations.flatMap(extractEmails), affiliations });
+};
 
-      return null;
-    };
-
-    for (const [email, ownerIndices] of emailToOwnerIndices.entries()) {
-      const authorName = assignEmailToAuthor(email, ownerIndices);
-      if (!authorName) continue;
-
-      const recordKey = `${title}|${authorName}|${email}`;
-      if (uniqueKeys.has(recordKey)) continue;
-      uniqueKeys.add(recordKey);
-      rows.push({
-        id: crypto.randomUUID(),
-        title,
-        author: authorName,
-        email,
-        source: 'PubMed'
-      });
-    }
+const MEDLINE_TAG_PATTERN = /^([A-Z]{2,4})\s*-\s*(.*)$/;
+
+// Line-fed MEDLINE reader: records are handed to onRecords as soon as the next PMID/TI
+// boundary closes them, so callers can stream arbitrarily large files through it.
+const createMedlineReader = (onRecords: (records: ExtractedRecord[]) => void) => {
+  const uniqueKeys = new Set<string>();
+  const skipped: SkipCounts = {};
+  let totalProcessed = 0;
+
+  let titleParts: string[] = [];
+  let authors: AffiliatedAuthor[] = [];
+  let currentAuthor: AffiliatedAuthor | null = null;
+  let currentTag: 'TI' | 'FAU' | 'AU' | 'AD' | 'JT' | null = null;
+  // PMID, PMC, AID/LID ([doi] only), TA with JT as fallback, and DP.
+  let fields: Record<'pmid' | 'pmcid' | 'doi' | 'ta' | 'jt' | 'dp', string> = {
+    pmid: '', pmcid: '', doi: '', ta: '', jt: '', dp: ''
+  };
 
+  const resetRecord = () => {
     titleParts = [];
     authors = [];
     currentAuthor = null;
     currentTag = null;
+    fields = { pmid: '', pmcid: '', doi: '', ta: '', jt: '', dp: '' };
   };
 
-  const lines = text
-    .replace(/\uFEFF/g, '')
-    .replace(/\r\n/g, '\n')
-    .replace(/\r/g, '\n')
-    .split('\n');
-  const tagPattern = /^([A-Z]{2,4})\s*-\s*(.*)$/;
+  const flushRecord = () => {
+    const hasContent = titleParts.length > 0 || authors.length > 0;
+    if (!hasContent) return;
+
+    totalProcessed += 1;
+
+    const title = trimTrailingFullStop(titleParts.join(' '));
+    if (title) {
+      const metadata = buildArticleMetadata({
+        pmid: fields.pmid,
+        pmcid: fields.pmcid,
+        doi: fields.doi,
+        journal: fields.ta || fields.jt,
+        year: fields.dp
+      });
+      const records = buildAffiliatedAuthorRecords(title, authors, 'PubMed', uniqueKeys, metadata);
+      if (records.length > 0) {
+        onRecords(records);
+      } else {
+        countSkip(skipped, affiliatedSkipReason(title, authors));
+      }
+    } else {
+      countSkip(skipped, 'noTitle');
+    }
+
+    resetRecord();
+  };
+
+  const pushLine = (rawLine: string) => {
+    const line = rawLine.replace(/\uFEFF/g, '');
 
-  for (const line of lines) {
     if (line.startsWith('PMID-') && (titleParts.length > 0 || authors.length > 0)) {
       flushRecord();
     }
 
-    const tagMatch = line.match(tagPattern);
+    const tagMatch = line.match(MEDLINE_TAG_PATTERN);
     if (tagMatch) {
       const tag = tagMatch[1];
       const value = tagMatch[2].trim();
@@ -383,10 +565,29 @@ const parseMedline = (text: string): ParserResult => {
         if (currentAuthor) {
           currentAuthor.affiliations.push(value);
         }
-      } else {
+      } else if (tag === 'AUID') {
+        // "AUID- ORCID: 0000-0002-1825-0097" follows the author it identifies.
         currentTag = null;
+        if (currentAuthor && /^ORCID:/i.test(value)) {
+          currentAuthor.orcid = value;
+        }
+      } else {
+        currentTag = tag === 'JT' ? 'JT' : null;
+        if (tag === 'PMID') {
+          fields.pmid = value;
+        } else if (tag === 'PMC') {
+          fields.pmcid = value;
+        } else if ((tag === 'AID' || tag === 'LID') && /\[doi\]$/i.test(value) && !fields.doi) {
+          fields.doi = value;
+        } else if (tag === 'TA') {
+          fields.ta = value;
+        } else if (tag === 'JT') {
+          fields.jt = value;
+        } else if (tag === 'DP') {
+          fields.dp = value;
+        }
       }
-      continue;
+      return;
     }
 
     if (/^\s+\S/.test(line) && currentTag) {
@@ -402,11 +603,13 @@ const parseMedline = (text: string): ParserResult => {
           const lastIndex = currentAuthor.shortNames.length - 1;
           currentAuthor.shortNames[lastIndex] = `${currentAuthor.shortNames[lastIndex]} ${continuation}`.trim();
         }
+      } else if (currentTag === 'JT') {
+        fields.jt = `${fields.jt} ${continuation}`.trim();
       } else if (currentTag === 'AD' && currentAuthor && currentAuthor.affiliations.length > 0) {
         const lastIndex = currentAuthor.affiliations.length - 1;
         currentAuthor.affiliations[lastIndex] = `${currentAuthor.affiliations[lastIndex]} ${continuation}`.trim();
       }
-      continue;
+      return;
     }
 
     const untaggedLine = line.trim();
@@ -417,15 +620,102 @@ const parseMedline = (text: string): ParserResult => {
         const lastIndex = currentAuthor.affiliations.length - 1;
         currentAuthor.affiliations[lastIndex] = `${currentAuthor.affiliations[lastIndex]} ${untaggedLine}`.trim();
       }
-      continue;
+      return;
     }
+  };
+
+  const finish = () => {
+    flushRecord();
+    return { totalProcessed, skipped };
+  };
+
+  return { pushLine, finish };
+};
+
+const splitTextLines = (text: string) =>
+  text.replace(/\r\n/g, '\n').replace(/\r/g, '\n').split('\n');
+
+const parseMedline = (text: string): ParserResult => {
+  const rows: ExtractedRecord[] = [];
+  const reader = createMedlineReader(records => rows.push(...records));
+  for (const line of splitTextLines(text)) {
+    reader.pushLine(line);
   }
+  return {
+    records: rows,
+    ...reader.finish()
+  };
+};
 
-  flushRecord();
+const childText = (parent: XmlElement, tagName: string) =>
+  normalizeWhitespace(getTextContent(childrenNamed(parent, tagName)[0]));
+
+const parsePubMedXml = (xmlDoc: XmlElement): ParserResult => {
+  const rows: ExtractedRecord[] = [];
+  const uniqueKeys = new Set<string>();
+  const skipped: SkipCounts = {};
+  const articles = findAll(xmlDoc, 'PubmedArticle');
+
+  for (const pubmedArticle of articles) {
+    const article = findFirst(pubmedArticle, 'Article');
+    const title = trimTrailingFullStop(getTextContent(findFirst(article, 'ArticleTitle')));
+    if (!article || !title) {
+      countSkip(skipped, 'noTitle');
+      continue;
+    }
+
+    const authors: AffiliatedAuthor[] = [];
+    const authorList = findFirst(article, 'AuthorList');
+    for (const author of authorList ? childrenNamed(authorList, 'Author') : []) {
+      if (getAttribute(author, 'ValidYN') === 'N') continue;
+
+      const lastName = childText(author, 'LastName');
+      const foreName = childText(author, 'ForeName');
+      const initials = childText(author, 'Initials');
+      // CollectiveName entries (consortia) have no LastName and cannot own an email.
+      if (!lastName) continue;
+
+      const affiliations = childrenNamed(author, 'AffiliationInfo')
+        .map(info => childText(info, 'Affiliation'))
+        .filter(Boolean);
+
+      authors.push({
+        // Mirror the MEDLINE FAU/AU pair so scoring behaves the same as the TXT path.
+        name: foreName ? `${lastName}, ${foreName}` : lastName,
+        shortNames: initials ? [`${lastName} ${initials}`] : [],
+        affiliations,
+        orcid: getTextContent(
+          childrenNamed(author, 'Identifier').find(identifier => getAttribute(identifier, 'Source') === 'ORCID')
+        )
+      });
+    }
+
+    // Only the article's own ids: PubmedData/ReferenceList repeats ArticleIdList for every cited work.
+    const articleIdList = childrenNamed(pubmedArticle, 'PubmedData')
+      .flatMap(pubmedData => childrenNamed(pubmedData, 'ArticleIdList'))[0];
+    const articleIds = articleIdList ? childrenNamed(articleIdList, 'ArticleId') : [];
+    const articleId = (type: string) =>
+      getTextContent(articleIds.find(element => getAttribute(element, 'IdType') === type));
+    const journal = findFirst(article, 'Journal');
+    const pubDate = findFirst(journal, 'PubDate');
+    const metadata = buildArticleMetadata({
+      pmid: getTextContent(findFirst(pubmedArticle, 'PMID')),
+      pmcid: articleId('pmc'),
+      doi: articleId('doi') ||
+        getTextContent(childrenNamed(article, 'ELocationID').find(element => getAttribute(element, 'EIdType') === 'doi')),
+      journal: getTextContent(findFirst(journal, 'ISOAbbreviation')) || getTextContent(findFirst(journal, 'Title')),
+      year: getTextContent(findFirst(pubDate, 'Year')) || getTextContent(findFirst(pubDate, 'MedlineDate'))
+    });
+
+    const records = buildAffiliatedAuthorRecords(title, authors, 'PubMed', uniqueKeys, metadata);
+    if (records.length === 0) countSkip(skipped, affiliatedSkipReason(title, authors));
+    rows.push(...records);
+  }
 
   return {
     records: rows,
-    totalProcessed
+    totalProcessed: articles.length,
+    skipped
   };
 };
 
@@ -441,6 +731,7 @@ const splitAuthorList = (authorText: string) => {
 const parseAbstractText = (text: string): ParserResult => {
   const rows: ExtractedRecord[] = [];
   const uniqueKeys = new Set<string>();
+  const skipped: SkipCounts = {};
   let totalProcessed = 0;
 
   const headingMap: Record<string, 'title' | 'authors' | 'affiliations'> = {
@@ -476,14 +767,24 @@ const parseAbstractText = (text: string): ParserResult => {
       : extractEmails(recordLines.join(' '));
 
     const chosenEmails = electronicEmails.length > 0 ? electronicEmails : emails;
+    const recordText = recordLines.join(' ');
     const records = buildRecords(
       title,
       authors,
       chosenEmails,
       'PubMed',
       uniqueKeys,
-      { strictMatch: electronicEmails.length > 0 }
+      {
+        strictMatch: electronicEmails.length > 0,
+        emailSourceFor: email => findEmailSource(affiliationLines, email) ?? findEmailSource(recordLines, email),
+        metadata: buildArticleMetadata({
+          pmid: recordText.match(/\bPMID:\s*(\d+)/i)?.[1],
+          pmcid: recordText.match(/\bPMCID:\s*(PMC\d+)/i)?.[1],
+          doi: recordText.match(/\bdoi:\s*(10\.\S+)/i)?.[1]
+        })
+      }
     );
+    if (records.length === 0) countSkip(skipped, skipReasonFor({ title, authors, emails: chosenEmails }));
     rows.push(...records);
 
     titleParts = [];
@@ -552,7 +853,8 @@ const parseAbstractText = (text: string): ParserResult => {
 
   return {
     records: rows,
-    totalProcessed
+    totalProcessed,
+    skipped
   };
 };
 
@@ -560,12 +862,79 @@ export const parsePubMedTxt = async (txtContent: string): Promise<ParserResult>
   return new Promise((resolve, reject) => {
     try {
       const content = txtContent ?? '';
+      if (/<PubmedArticleSet[\s>]/.test(content)) {
+        let xmlDoc: XmlElement;
+        try {
+          xmlDoc = parseXml(content);
+        } catch (parseError) {
+          console.error(parseError);
+          reject(new Error('Invalid PubMed XML format or file is corrupted.'));
+          return;
+        }
+        resolve(parsePubMedXml(xmlDoc));
+        return;
+      }
       const isMedline = /(^|\n)PMID- /m.test(content) || /(^|\n)[A-Z]{2,4}\s{2}- /m.test(content);
       const result = isMedline ? parseMedline(content) : parseAbstractText(content);
       resolve(result);
     } catch (error) {
       console.error(error);
-      reject(new Error("An unexpected error occurred during parsing."));
+      reject(new Error("An unexpected error occurred during parsing.", { cause: error }));
     }
   });
 };
+
+// Only MEDLINE has record boundaries we can stream on; XML and abstract-text exports are
+// collected and handed to parsePubMedTxt once the input ends.
+export const parsePubMedLines = async (
+  lineBatches: AsyncIterable<string[]>,
+  onRecords: (records: ExtractedRecord[]) => void
+): Promise<Omit<ParserResult, 'records'>> => {
+  let reader: ReturnType<typeof createMedlineReader> | null = null;
+  const buffered: string[] = [];
+
+  try {
+    for await (const lines of lineBatches) {
+      for (const line of lines) {
+        if (reader) {
+          reader.pushLine(line);
+        } else if (buffered.length === 0 && !line.trim()) {
+          continue;
+        } else if (buffered.length === 0 && /^(?:PMID|[A-Z]{2,4}\s{1,2})- /.test(line.replace(/^\uFEFF/, ''))) {
+          reader = createMedlineReader(onRecords);
+          reader.pushLine(line);
+        } else {
+          buffered.push(line);
+        }
+      }
+    }
+
+    if (reader) {
+      return reader.finish();
+    }
+  } catch (error) {
+    console.error(error);
+    throw new Error("An unexpected error occurred during parsing.", { cause: error });
+  }
+
+  // Outside the try: parsePubMedTxt already words its own errors, e.g. for corrupted XML.
+  const result = await parsePubMedTxt(buffered.join('\n'));
+  onRecords(result.records);
+  return { totalProcessed: result.totalProcessed, skipped: result.skipped };
+};
+
+export const pubmedStrategy: ParserStrategy = {
+  id: DataSourceType.PUBMED,
+  name: 'PubMed',
+  description: 'PubMed MEDLINE text, abstract text, and PubmedArticleSet XML',
+  ui: {
+    formatLabel: 'TXT & XML Exports',
+    uploadLabel: 'TXT or XML files (PubMed MEDLINE, abstract, or PubmedArticleSet format)',
+    parsingLabel: 'Parsing PubMed Export...',
+    parsingDetail: 'Extracting author and email metadata',
+    acceptTypes: ['.txt', '.xml'],
+    icon: 'file-text'
+  },
+  parse: parsePubMedTxt,
+  parseLines: parsePubMedLines
+};
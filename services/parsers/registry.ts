@@ -0,0 +1,47 @@
+import { DataSourceType, ParserStrategy } from '../../types';
+import { europePmcStrategy } from './europepmcParser';
+import { pubmedStrategy } from './pubmedTxtParser';
+import { mdpiStrategy } from './mdpiTxtParser';
+import { scopusStrategy } from './scopusCsvParser';
+import { wosStrategy } from './wosTxtParser';
+import { biorxivStrategy } from './biorxivParser';
+import { citationStrategy } from './citationParser';
+
+const strategies = new Map<DataSourceType, ParserStrategy>();
+
+export const registerParser = (strategy: ParserStrategy) => {
+  strategies.set(strategy.id, strategy);
+};
+
+// Registration order is the order sources appear in the selector.
+[
+  europePmcStrategy,
+  pubmedStrategy,
+  mdpiStrategy,
+  scopusStrategy,
+  wosStrategy,
+  biorxivStrategy,
+  citationStrategy
+].forEach(registerParser);
+
+export const listParsers = () => Array.from(strategies.values());
+
+export const getParser = (id: DataSourceType) => {
+  const strategy = strategies.get(id);
+  if (!strategy) {
+    throw new Error(`No parser registered for source "${id}".`);
+  }
+  return strategy;
+};
+
+export const getAllAcceptTypes = () =>
+  Array.from(new Set(listParsers().flatMap(strategy => strategy.ui.acceptTypes)));
+
+// URL- and shell-friendly form of a source id, e.g. WEB_OF_SCIENCE -> "web-of-science".
+export const getSourceKey = (id: DataSourceType) => id.toLowerCase().replace(/_/g, '-');
+
+// Accepts either the key or the enum value, in any case, for CLI flags and query strings.
+export const findParserByKey = (value: string) => {
+  const id = value.trim().toUpperCase().replace(/[\s-]+/g, '_');
+  return listParsers().find(strategy => strategy.id === id);
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { parseScopusCsv } from './scopusCsvParser';
+
+const HEADER = 'Authors,Author full names,Title,Year,Source title,DOI,Authors with affiliations,Correspondence Address';
+
+describe('parseScopusCsv', () => {
+  it('maps correspondence emails to authors by name, not by position', async () => {
+    const csv = [
+      HEADER,
+      'Smith J.; Doe A.,"Smith, John (57190012345); Doe, Anna (6701234567)",Gut microbiome shifts,2021,Gut,10.1000/gut.1,,' +
+        '"Doe A.; Dept Chemistry, Univ Y, London, UK; email: anna.doe@uny.ac.uk, john.smith@unx.edu"'
+    ].join('\r\n');
+    const { records } = await parseScopusCsv(csv);
+    expect(records.map(({ author, email, affiliation }) => ({ author, email, affiliation }))).toEqual([
+      { author: 'Anna Doe', email: 'anna.doe@uny.ac.uk', affiliation: 'Dept Chemistry, Univ Y, London, UK' },
+      { author: 'John Smith', email: 'john.smith@unx.edu', affiliation: undefined }
+    ]);
+    expect(records[0]).toMatchObject({ doi: '10.1000/gut.1', journal: 'Gut', year: '2021', matchReason: 'surname in local part' });
+  });
+
+  it('reads quoted fields that span lines', async () => {
+    const csv = [
+      HEADER,
+      'Smith J.,"Smith, John (57190012345)","Gut microbiome shifts\nafter antibiotics",2021,Gut,,' +
+        '"Smith J., Dept Biology, Univ X,\nBoston, USA","Smith J.; Univ X; email: john.smith@unx.edu"',
+      'Doe A.,"Doe, Anna (6701234567)",Soil bacteria,2020,Soil,,,"Doe A.; Univ Y; email: anna.doe@uny.ac.uk"'
+    ].join('\n');
+    const result = await parseScopusCsv(csv);
+    expect(result.totalProcessed).toBe(2);
+    expect(result.records.map(({ title, author }) => ({ title, author }))).toEqual([
+      { title: 'Gut microbiome shifts after antibiotics', author: 'John Smith' },
+      { title: 'Soil bacteria', author: 'Anna Doe' }
+    ]);
+  });
+});
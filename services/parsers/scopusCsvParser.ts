@@ -0,0 +1,142 @@
+import { DataSourceType, ExtractedRecord, ParserResult, ParserStrategy, SkipCounts } from '../../types';
+import { normalizeExtractedText } from './textNormalization';
+import { buildCorrespondenceRecords, extractEmails, findAffiliationByName } from './pubmedTxtParser';
+import { buildArticleMetadata } from './articleMetadata';
+import { parseCsvRows } from './delimitedText';
+import { countSkip, skipReasonFor } from './skipReasons';
+
+const normalizeHeader = (value: string) => normalizeExtractedText(value).toLowerCase();
+
+// "Author full names" looks like "Smith, John (57190012345); Doe, Anna (6701234567)".
+const splitFullNames = (value: string) =>
+  value
+    .split(';')
+    .map(name => normalizeExtractedText(name.replace(/\(\d+\)/g, '')))
+    .filter(Boolean);
+
+// Older exports separate "Authors" with commas ("Smith J., Doe A."), newer ones with semicolons.
+const splitShortNames = (value: string) =>
+  (value.includes(';') ? value.split(';') : value.split(/(?<=\.),\s*/))
+    .map(name => normalizeExtractedText(name))
+    .filter(name => name && !/^\[no author name available\]$/i.test(name));
+
+// "Correspondence Address" is "Smith J.; Dept ..., City, Country; email: j.smith@x.edu".
+const correspondenceName = (value: string) => normalizeExtractedText(value.split(';')[0] ?? '');
+
+// The address between the name and "email:" is the corresponding author's affiliation.
+const correspondenceAffiliation = (value: string) =>
+  normalizeExtractedText(
+    value
+      .split(';')
+      .slice(1)
+      .filter(part => !/^\s*email:/i.test(part))
+      .join(';')
+  );
+
+// "Authors with affiliations" is "Smith J., Dept X, Univ Y, Country; Doe A., Dept Z, ...".
+const parseAuthorAffiliations = (value: string) =>
+  value
+    .split(';')
+    .map(entry => {
+      const separator = entry.indexOf(', ');
+      return separator === -1
+        ? null
+        : { name: normalizeExtractedText(entry.slice(0, separator)), affiliation: normalizeExtractedText(entry.slice(separator + 2)) };
+    })
+    .filter((entry): entry is { name: string; affiliation: string } => !!entry && !!entry.affiliation);
+
+export const parseScopusCsv = async (csvContent: string): Promise<ParserResult> => {
+  return new Promise((resolve, reject) => {
+    try {
+      const { headers, rows } = parseCsvRows(csvContent ?? '', 'The Scopus CSV file is empty.');
+      const headerMap = headers.reduce<Record<string, number>>((acc, header, index) => {
+        acc[normalizeHeader(header)] = index;
+        return acc;
+      }, {});
+
+      const titleIndex = headerMap.title;
+      const correspondenceIndex = headerMap['correspondence address'];
+      const fullNamesIndex = headerMap['author full names'];
+      const authorsIndex = headerMap.authors;
+      const column = (row: string[], name: string) => {
+        const index = headerMap[name];
+        return index === undefined ? '' : row[index] ?? '';
+      };
+
+      if (
+        titleIndex === undefined ||
+        correspondenceIndex === undefined ||
+        (fullNamesIndex === undefined && authorsIndex === undefined)
+      ) {
+        throw new Error(
+          'Missing required Scopus columns. Expected CSV headers for Authors, Title, and Correspondence Address.'
+        );
+      }
+
+      const uniqueKeys = new Set<string>();
+      const records: ExtractedRecord[] = [];
+      const skipped: SkipCounts = {};
+
+      for (const row of rows) {
+        const correspondence = row[correspondenceIndex] ?? '';
+        const emails = extractEmails(correspondence);
+        if (emails.length === 0) {
+          countSkip(skipped, row[titleIndex]?.trim() ? 'noEmail' : 'noTitle');
+          continue;
+        }
+
+        const fullNames = fullNamesIndex !== undefined ? splitFullNames(row[fullNamesIndex] ?? '') : [];
+        const authors = fullNames.length > 0
+          ? fullNames
+          : splitShortNames(authorsIndex !== undefined ? row[authorsIndex] ?? '' : '');
+        const authorAffiliations = parseAuthorAffiliations(column(row, 'authors with affiliations'));
+        const correspondingAuthor = [
+          { name: correspondenceName(correspondence), affiliation: correspondenceAffiliation(correspondence) }
+        ];
+
+        const title = row[titleIndex] ?? '';
+        const articleRecords = buildCorrespondenceRecords(
+          title,
+          authors,
+          emails,
+          [correspondenceName(correspondence)],
+          'Scopus',
+          uniqueKeys,
+          {
+            metadata: buildArticleMetadata({
+              pmid: column(row, 'pubmed id'),
+              doi: column(row, 'doi'),
+              journal: column(row, 'source title'),
+              year: column(row, 'year')
+            }),
+            // The correspondence address is the one the email was taken from, so it wins.
+            affiliationFor: author =>
+              findAffiliationByName(author, correspondingAuthor) ?? findAffiliationByName(author, authorAffiliations)
+          }
+        );
+        if (articleRecords.length === 0) countSkip(skipped, skipReasonFor({ title, authors, emails }));
+        records.push(...articleRecords);
+      }
+
+      resolve({ records, totalProcessed: rows.length, skipped });
+    } catch (error) {
+      console.error(error);
+      reject(new Error('An unexpected error occurred during Scopus CSV parsing.', { cause: error }));
+    }
+  });
+};
+
+export const scopusStrategy: ParserStrategy = {
+  id: DataSourceType.SCOPUS,
+  name: 'Scopus',
+  description: 'Scopus CSV exports with a Correspondence Address column',
+  ui: {
+    formatLabel: 'CSV Exports',
+    uploadLabel: 'CSV files only (Scopus export with Correspondence Address)',
+    parsingLabel: 'Parsing Scopus CSV...',
+    parsingDetail: 'Matching correspondence emails to authors',
+    acceptTypes: ['.csv'],
+    icon: 'file-spreadsheet'
+  },
+  parse: parseScopusCsv
+};
@@ -0,0 +1,40 @@
+import { SkipCounts, SkipReason } from '../../types';
+
+export const SKIP_REASON_LABELS: Record<SkipReason, string> = {
+  noTitle: 'no title',
+  noAuthors: 'no authors',
+  noEmail: 'no email',
+  noAffiliation: 'no affiliation',
+  unmatched: 'no email matched an author'
+};
+
+export const SKIP_REASONS = Object.keys(SKIP_REASON_LABELS) as SkipReason[];
+
+export const countSkip = (counts: SkipCounts, reason: SkipReason) => {
+  counts[reason] = (counts[reason] ?? 0) + 1;
+};
+
+export const totalSkipped = (counts: SkipCounts) =>
+  Object.values(counts).reduce((sum, count) => sum + (count ?? 0), 0);
+
+// e.g. "3 no email, 1 no title"
+export const describeSkipped = (skipped: SkipCounts) =>
+  SKIP_REASONS.filter(reason => skipped[reason])
+    .map(reason => `${skipped[reason]} ${SKIP_REASON_LABELS[reason]}`)
+    .join(', ');
+
+interface ArticleParts {
+  title: string;
+  authors: unknown[];
+  emails: unknown[];
+  // Only for formats that take emails from affiliations, where a missing affiliation is the real cause.
+  affiliations?: unknown[];
+}
+
+// The first missing part explains why an article produced no records.
+export const skipReasonFor = ({ title, authors, emails, affiliations }: ArticleParts): SkipReason => {
+  if (!title.trim()) return 'noTitle';
+  if (authors.length === 0) return 'noAuthors';
+  if (emails.length === 0) return affiliations && affiliations.length === 0 ? 'noAffiliation' : 'noEmail';
+  return 'unmatched';
+};
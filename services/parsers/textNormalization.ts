@@ -4,14 +4,44 @@ const CONTROL_CHAR_REGEX = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g;
 const ENTITY_REGEX = /&(?:#\d+|#x[\da-fA-F]+|[a-zA-Z][a-zA-Z0-9]+);/;
 const LIKELY_MOJIBAKE_REGEX = /(?:\u00C3.|\u00C2.|\u00E2.)/;
 
-let entityDecoder: HTMLTextAreaElement | null = null;
+// Named entities for U+00A0..U+00FF in code point order, plus the ones common in titles and
+// affiliations. Decoding from a table rather than a <textarea> keeps this usable in Web Workers.
+const LATIN1_ENTITY_NAMES = (
+  'nbsp iexcl cent pound curren yen brvbar sect uml copy ordf laquo not shy reg macr deg plusmn sup2 sup3 ' +
+  'acute micro para middot cedil sup1 ordm raquo frac14 frac12 frac34 iquest Agrave Aacute Acirc Atilde Auml ' +
+  'Aring AElig Ccedil Egrave Eacute Ecirc Euml Igrave Iacute Icirc Iuml ETH Ntilde Ograve Oacute Ocirc Otilde ' +
+  'Ouml times Oslash Ugrave Uacute Ucirc Uuml Yacute THORN szlig agrave aacute acirc atilde auml aring aelig ' +
+  'ccedil egrave eacute ecirc euml igrave iacute icirc iuml eth ntilde ograve oacute ocirc otilde ouml divide ' +
+  'oslash ugrave uacute ucirc uuml yacute thorn yuml'
+).split(' ');
+
+const NAMED_ENTITIES: Record<string, number> = {
+  quot: 0x22, amp: 0x26, apos: 0x27, lt: 0x3c, gt: 0x3e,
+  OElig: 0x152, oelig: 0x153, Scaron: 0x160, scaron: 0x161, Yuml: 0x178, fnof: 0x192,
+  ensp: 0x2002, emsp: 0x2003, thinsp: 0x2009, zwnj: 0x200c, zwj: 0x200d,
+  ndash: 0x2013, mdash: 0x2014, lsquo: 0x2018, rsquo: 0x2019, sbquo: 0x201a,
+  ldquo: 0x201c, rdquo: 0x201d, bdquo: 0x201e, dagger: 0x2020, Dagger: 0x2021,
+  bull: 0x2022, hellip: 0x2026, permil: 0x2030, prime: 0x2032, Prime: 0x2033,
+  euro: 0x20ac, trade: 0x2122, minus: 0x2212, le: 0x2264, ge: 0x2265, ne: 0x2260,
+  alpha: 0x3b1, beta: 0x3b2, gamma: 0x3b3, delta: 0x3b4, epsilon: 0x3b5, kappa: 0x3ba,
+  lambda: 0x3bb, mu: 0x3bc, pi: 0x3c0, sigma: 0x3c3, tau: 0x3c4, omega: 0x3c9
+};
+LATIN1_ENTITY_NAMES.forEach((name, index) => {
+  NAMED_ENTITIES[name] = 0xa0 + index;
+});
 
 const decodeEntities = (value: string) => {
   if (!value || !ENTITY_REGEX.test(value)) return value;
-  if (typeof document === 'undefined') return value;
-  entityDecoder ??= document.createElement('textarea');
-  entityDecoder.innerHTML = value;
-  return entityDecoder.value;
+  return value.replace(/&(#\d+|#x[\da-fA-F]+|[a-zA-Z][a-zA-Z0-9]+);/g, (match, entity: string) => {
+    const codePoint = entity[0] !== '#'
+      ? NAMED_ENTITIES[entity]
+      : entity[1] === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+    return codePoint !== undefined && Number.isFinite(codePoint) && codePoint <= 0x10ffff
+      ? String.fromCodePoint(codePoint)
+      : match;
+  });
 };
 
 const mojibakeScore = (value: string) => {
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { parseWosTxt } from './wosTxtParser';
+
+const byAuthor = (records: { author: string; email: string; affiliation?: string }[]) =>
+  records.map(({ author, email, affiliation }) => ({ author, email, affiliation }));
+
+// The first author corresponds second, and EM lists Doe before Smith.
+const expected = [
+  { author: 'Anna Doe', email: 'anna.doe@uny.ac.uk', affiliation: 'Univ Y, London, UK' },
+  { author: 'John Smith', email: 'john.smith@unx.edu', affiliation: 'Univ X, Boston, USA' }
+];
+
+describe('parseWosTxt', () => {
+  it('joins a tab-delimited row whose AF, RP and EM fields span lines', async () => {
+    const txt = [
+      'PT\tAU\tAF\tTI\tSO\tC1\tRP\tEM\tDI\tPY',
+      'J\tSmith, J; Doe, A\tSmith, John;\nDoe, Anna\tSoil bacteria in arid regions\tSOIL BIOL\t' +
+        '[Smith, John] Univ X, Boston, USA; [Doe, Anna] Univ Y, London, UK\t' +
+        'Doe, A (corresponding author), Univ Y, London,\nUK; Smith, J (corresponding author), Univ X, Boston, USA.\t' +
+        'anna.doe@uny.ac.uk;\njohn.smith@unx.edu\t10.1000/soil.1\t2020'
+    ].join('\n');
+    const result = await parseWosTxt(txt);
+    expect(result.totalProcessed).toBe(1);
+    expect(byAuthor(result.records)).toEqual(expected);
+    expect(result.records[0]).toMatchObject({ title: 'Soil bacteria in arid regions', doi: '10.1000/soil.1', year: '2020' });
+  });
+
+  it('reads a plain-text record with continuation lines', async () => {
+    const txt = `FN Clarivate Analytics Web of Science
+VR 1.0
+PT J
+AU Smith, J
+   Doe, A
+AF Smith, John
+   Doe, Anna
+TI Soil bacteria in arid
+   regions
+SO SOIL BIOLOGY
+C1 [Smith, John] Univ X, Boston, USA
+   [Doe, Anna] Univ Y, London, UK
+RP Doe, A (corresponding author), Univ Y, London, UK.
+   Smith, J (corresponding author), Univ X, Boston, USA.
+EM anna.doe@uny.ac.uk;
+   john.smith@unx.edu
+DI 10.1000/soil.1
+PY 2020
+ER
+
+PT J
+AF Roe, Jo
+TI No email on record
+ER
+
+EF
+`;
+    const result = await parseWosTxt(txt);
+    expect(result.totalProcessed).toBe(2);
+    expect(result.skipped).toEqual({ noEmail: 1 });
+    expect(byAuthor(result.records)).toEqual(expected);
+    expect(result.records[0]).toMatchObject({ title: 'Soil bacteria in arid regions', journal: 'SOIL BIOLOGY' });
+  });
+});
@@ -0,0 +1,161 @@
+import { DataSourceType, ExtractedRecord, ParserResult, ParserStrategy, SkipCounts } from '../../types';
+import { normalizeExtractedText } from './textNormalization';
+import { buildCorrespondenceRecords, extractEmails, findAffiliationByName } from './pubmedTxtParser';
+import { buildArticleMetadata } from './articleMetadata';
+import { parseTabDelimitedRows } from './delimitedText';
+import { countSkip, skipReasonFor } from './skipReasons';
+
+const splitNames = (value: string) =>
+  value
+    .split(';')
+    .map(name => normalizeExtractedText(name))
+    .filter(Boolean);
+
+// RP reads "Smith, J (corresponding author), Univ X, ...; Doe, A (corresponding author), Univ Y, ...".
+const reprintNames = (value: string) =>
+  Array.from(value.matchAll(/(?:^|;\s*)([^;(]+?)\s*\(corresponding author\)/gi))
+    .map(match => normalizeExtractedText(match[1]))
+    .filter(Boolean);
+
+// C1 reads "[Smith, John; Doe, Anna] Univ X, Dept Y, City, Country; [Roe, J] Inst Z, ...".
+// Older records drop the bracketed names, and those addresses cannot be tied to anyone.
+const parseAddresses = (value: string) =>
+  Array.from(value.matchAll(/\[([^\]]+)\]\s*([^[]+)/g)).flatMap(match => {
+    const affiliation = normalizeExtractedText(match[2].replace(/;\s*$/, ''));
+    return splitNames(match[1]).map(name => ({ name, affiliation }));
+  });
+
+// Plain-text exports start with "FN Clarivate Analytics Web of Science", put one tagged field per
+// line ("AF Smith, John") and indent continuation lines. Each record runs from PT to ER.
+const isPlainTextExport = (content: string) => /^\uFEFF?\s*FN /.test(content);
+
+// A continuation line of these tags holds the next author, address or email; of any other tag,
+// the rest of a wrapped value.
+const LIST_TAGS = new Set(['AU', 'AF', 'C1', 'RP', 'EM']);
+
+// Reads a plain-text export into the same headers and rows as a tab-delimited one.
+const parsePlainTextRows = (content: string) => {
+  const fields: Record<string, string>[] = [];
+  let record: Record<string, string> | null = null;
+  let lastTag: string | null = null;
+
+  for (const line of content.replace(/\uFEFF/g, '').split(/\r\n|\r|\n/)) {
+    const continuation = line.match(/^ {2,}(\S.*)$/);
+    if (continuation) {
+      if (record && lastTag) {
+        record[lastTag] += `${LIST_TAGS.has(lastTag) ? '; ' : ' '}${continuation[1].trim()}`;
+      }
+      continue;
+    }
+
+    const tagMatch = line.match(/^([A-Z][A-Z0-9])(?: (.*))?$/);
+    if (!tagMatch) continue;
+    const [, tag, value = ''] = tagMatch;
+    if (tag === 'PT') record = {};
+    if (tag === 'ER') {
+      if (record) fields.push(record);
+      record = null;
+    }
+    // FN, VR and EF sit outside records.
+    if (!record) {
+      lastTag = null;
+      continue;
+    }
+    record[tag] = value.trim();
+    lastTag = tag;
+  }
+  if (record) fields.push(record);
+
+  const headers = Array.from(new Set(fields.flatMap(field => Object.keys(field))));
+  return { headers, rows: fields.map(field => headers.map(header => field[header] ?? '')) };
+};
+
+export const parseWosTxt = async (txtContent: string): Promise<ParserResult> => {
+  return new Promise((resolve, reject) => {
+    try {
+      const { headers, rows } = isPlainTextExport(txtContent ?? '')
+        ? parsePlainTextRows(txtContent)
+        : parseTabDelimitedRows(txtContent ?? '', 'The Web of Science file is empty.');
+      const headerMap = headers.reduce<Record<string, number>>((acc, header, index) => {
+        acc[normalizeExtractedText(header).toUpperCase()] = index;
+        return acc;
+      }, {});
+
+      const titleIndex = headerMap.TI;
+      const emailIndex = headerMap.EM;
+      const fullNameIndex = headerMap.AF;
+      const shortNameIndex = headerMap.AU;
+      const reprintIndex = headerMap.RP;
+      const field = (row: string[], tag: string) => {
+        const index = headerMap[tag];
+        return index === undefined ? '' : row[index] ?? '';
+      };
+
+      if (titleIndex === undefined || emailIndex === undefined || (fullNameIndex === undefined && shortNameIndex === undefined)) {
+        throw new Error(
+          'Missing required Web of Science fields. Expected AF (or AU), TI, and EM in a tab-delimited or plain-text export.'
+        );
+      }
+
+      const uniqueKeys = new Set<string>();
+      const records: ExtractedRecord[] = [];
+      const skipped: SkipCounts = {};
+
+      for (const row of rows) {
+        const title = row[titleIndex] ?? '';
+        const emails = extractEmails(row[emailIndex] ?? '');
+        if (emails.length === 0) {
+          countSkip(skipped, title.trim() ? 'noEmail' : 'noTitle');
+          continue;
+        }
+
+        const fullNames = fullNameIndex !== undefined ? splitNames(row[fullNameIndex] ?? '') : [];
+        const authors = fullNames.length > 0
+          ? fullNames
+          : splitNames(shortNameIndex !== undefined ? row[shortNameIndex] ?? '' : '');
+        const correspondingNames = reprintIndex !== undefined ? reprintNames(row[reprintIndex] ?? '') : [];
+        const addresses = parseAddresses(field(row, 'C1'));
+
+        const articleRecords = buildCorrespondenceRecords(
+          title,
+          authors,
+          emails,
+          correspondingNames,
+          'Web of Science',
+          uniqueKeys,
+          {
+            metadata: buildArticleMetadata({
+              pmid: field(row, 'PM'),
+              doi: field(row, 'DI'),
+              journal: field(row, 'SO') || field(row, 'J9'),
+              year: field(row, 'PY') || field(row, 'PD')
+            }),
+            affiliationFor: author => findAffiliationByName(author, addresses)
+          }
+        );
+        if (articleRecords.length === 0) countSkip(skipped, skipReasonFor({ title, authors, emails }));
+        records.push(...articleRecords);
+      }
+
+      resolve({ records, totalProcessed: rows.length, skipped });
+    } catch (error) {
+      console.error(error);
+      reject(new Error('An unexpected error occurred during Web of Science parsing.', { cause: error }));
+    }
+  });
+};
+
+export const wosStrategy: ParserStrategy = {
+  id: DataSourceType.WEB_OF_SCIENCE,
+  name: 'Web of Science',
+  description: 'Web of Science tab-delimited or plain-text exports (AF, RP, EM fields)',
+  ui: {
+    formatLabel: 'Tab-delimited or plain TXT',
+    uploadLabel: 'TXT files only (Web of Science tab-delimited or plain-text format)',
+    parsingLabel: 'Parsing Web of Science TXT...',
+    parsingDetail: 'Matching EM emails to AF authors',
+    acceptTypes: ['.txt'],
+    icon: 'globe'
+  },
+  parse: parseWosTxt
+};
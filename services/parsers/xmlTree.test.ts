@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { childrenNamed, findAll, findFirst, getAttribute, getTextContent, parseXml } from './xmlTree';
+
+describe('parseXml', () => {
+  it('decodes XML entities and character references, and leaves HTML entities alone', () => {
+    const root = parseXml('<title lang="en &amp; fr">Fish &amp; chips &lt;3 &#233;t&#xE9; &nbsp;</title>');
+    const title = findFirst(root, 'title')!;
+    expect(getTextContent(title)).toBe('Fish & chips <3 \u00e9t\u00e9 &nbsp;');
+    expect(getAttribute(title, 'lang')).toBe('en & fr');
+  });
+
+  it('keeps CDATA verbatim and skips comments, processing instructions and the DOCTYPE', () => {
+    const root = parseXml(`<?xml version="1.0"?>
+<!DOCTYPE article [<!ENTITY nbsp "&#160;">]>
+<!-- exported -->
+<article><p><![CDATA[a < b && <i>not markup</i>]]></p></article>`);
+    expect(root.children.map(child => child.name)).toEqual(['article']);
+    expect(getTextContent(findFirst(root, 'p'))).toBe('a < b && <i>not markup</i>');
+  });
+
+  it('keeps namespace prefixes on element and attribute names', () => {
+    const root = parseXml(
+      '<jats:article xmlns:jats="http://jats.nlm.nih.gov" xmlns:xlink="http://www.w3.org/1999/xlink">' +
+        "<jats:uri xlink:href='https://example.org/a?x=1&amp;y=2'/><jats:uri/></jats:article>"
+    );
+    const article = findFirst(root, 'jats:article')!;
+    expect(getAttribute(article, 'xmlns:xlink')).toBe('http://www.w3.org/1999/xlink');
+    expect(childrenNamed(article, 'jats:uri')).toHaveLength(2);
+    expect(getAttribute(findAll(root, 'jats:uri')[0], 'xlink:href')).toBe('https://example.org/a?x=1&y=2');
+    expect(findFirst(root, 'uri')).toBeNull();
+  });
+
+  it('reads a > inside a quoted attribute value', () => {
+    const root = parseXml('<a title="x > y">text</a>');
+    expect(getAttribute(findFirst(root, 'a')!, 'title')).toBe('x > y');
+  });
+
+  it.each([
+    ['a mismatched closing tag', '<a><b></a></b>', 'Unexpected closing tag </a>.'],
+    ['an unclosed element', '<a><b></b>', 'Unclosed element <a>.'],
+    ['an unterminated comment', '<a><!-- no end</a>', 'Unterminated markup: expected "-->".'],
+    ['an unterminated CDATA section', '<a><![CDATA[ no end</a>', 'Unterminated CDATA section.'],
+    ['an unterminated opening tag', '<a><b title="x"', 'Unterminated opening tag.'],
+    ['text without elements', 'just text', 'No root element found.']
+  ])('rejects %s', (_, xml, message) => {
+    expect(() => parseXml(xml)).toThrow(message);
+  });
+});
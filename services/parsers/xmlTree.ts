@@ -0,0 +1,192 @@
+// Minimal XML tree builder used instead of DOMParser, which is unavailable in Web Workers
+// and Node. It only supports what the parsers need: elements, attributes and text.
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  childNodes: (XmlElement | string)[];
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'"
+};
+
+// Named HTML entities (&nbsp;, &eacute;) are left in place for normalizeExtractedText to decode.
+const decodeXmlEntities = (value: string) =>
+  value.indexOf('&') === -1
+    ? value
+    : value.replace(/&(#x[\da-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (_, entity: string) => {
+        if (entity[0] !== '#') return XML_ENTITIES[entity];
+        const codePoint = entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        return Number.isFinite(codePoint) ? String.fromCodePoint(codePoint) : '';
+      });
+
+const ATTRIBUTE_REGEX = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const parseAttributes = (source: string) => {
+  const attributes: Record<string, string> = {};
+  let match: RegExpExecArray | null;
+  ATTRIBUTE_REGEX.lastIndex = 0;
+  while ((match = ATTRIBUTE_REGEX.exec(source)) !== null) {
+    attributes[match[1]] = decodeXmlEntities(match[2] ?? match[3] ?? '');
+  }
+  return attributes;
+};
+
+const createElement = (name: string, attributes: Record<string, string> = {}): XmlElement => ({
+  name,
+  attributes,
+  children: [],
+  childNodes: []
+});
+
+const skipPast = (xml: string, from: number, terminator: string) => {
+  const end = xml.indexOf(terminator, from);
+  if (end === -1) throw new Error(`Unterminated markup: expected "${terminator}".`);
+  return end + terminator.length;
+};
+
+const skipDoctype = (xml: string, from: number) => {
+  let depth = 0;
+  for (let index = from; index < xml.length; index += 1) {
+    const char = xml[index];
+    if (char === '[') depth += 1;
+    else if (char === ']') depth -= 1;
+    else if (char === '>' && depth <= 0) return index + 1;
+  }
+  throw new Error('Unterminated DOCTYPE declaration.');
+};
+
+export const parseXml = (xml: string): XmlElement => {
+  const root = createElement('#document');
+  const stack: XmlElement[] = [root];
+  let index = 0;
+
+  const appendText = (text: string) => {
+    if (!text) return;
+    stack[stack.length - 1].childNodes.push(text);
+  };
+
+  while (index < xml.length) {
+    const tagStart = xml.indexOf('<', index);
+    if (tagStart === -1) {
+      appendText(decodeXmlEntities(xml.slice(index)));
+      break;
+    }
+
+    if (tagStart > index) {
+      appendText(decodeXmlEntities(xml.slice(index, tagStart)));
+    }
+
+    if (xml.startsWith('<!--', tagStart)) {
+      index = skipPast(xml, tagStart + 4, '-->');
+    } else if (xml.startsWith('<![CDATA[', tagStart)) {
+      const end = xml.indexOf(']]>', tagStart + 9);
+      if (end === -1) throw new Error('Unterminated CDATA section.');
+      appendText(xml.slice(tagStart + 9, end));
+      index = end + 3;
+    } else if (xml.startsWith('<?', tagStart)) {
+      index = skipPast(xml, tagStart + 2, '?>');
+    } else if (xml.startsWith('<!', tagStart)) {
+      index = skipDoctype(xml, tagStart + 2);
+    } else if (xml[tagStart + 1] === '/') {
+      const end = xml.indexOf('>', tagStart);
+      if (end === -1) throw new Error('Unterminated closing tag.');
+      const name = xml.slice(tagStart + 2, end).trim();
+      const current = stack[stack.length - 1];
+      if (stack.length === 1 || current.name !== name) {
+        throw new Error(`Unexpected closing tag </${name}>.`);
+      }
+      stack.pop();
+      index = end + 1;
+    } else {
+      let end = tagStart + 1;
+      let quote: string | null = null;
+      for (; end < xml.length; end += 1) {
+        const char = xml[end];
+        if (quote) {
+          if (char === quote) quote = null;
+        } else if (char === '"' || char === "'") {
+          quote = char;
+        } else if (char === '>') {
+          break;
+        }
+      }
+      if (end >= xml.length) throw new Error('Unterminated opening tag.');
+
+      const selfClosing = xml[end - 1] === '/';
+      const body = xml.slice(tagStart + 1, selfClosing ? end - 1 : end);
+      const nameMatch = body.match(/^[^\s/>]+/);
+      if (!nameMatch) throw new Error('Malformed opening tag.');
+
+      const element = createElement(nameMatch[0], parseAttributes(body.slice(nameMatch[0].length)));
+      const parent = stack[stack.length - 1];
+      parent.children.push(element);
+      parent.childNodes.push(element);
+      if (!selfClosing) stack.push(element);
+      index = end + 1;
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Unclosed element <${stack[stack.length - 1].name}>.`);
+  }
+  if (root.children.length === 0) {
+    throw new Error('No root element found.');
+  }
+
+  return root;
+};
+
+export const getTextContent = (element: XmlElement | null | undefined): string => {
+  if (!element) return '';
+  let text = '';
+  for (const node of element.childNodes) {
+    text += typeof node === 'string' ? node : getTextContent(node);
+  }
+  return text;
+};
+
+export const getAttribute = (element: XmlElement, name: string) => element.attributes[name] ?? null;
+
+type ElementMatcher = string | ((element: XmlElement) => boolean);
+
+const toPredicate = (matcher: ElementMatcher) =>
+  typeof matcher === 'string' ? (element: XmlElement) => element.name === matcher : matcher;
+
+// Descendants in document order, excluding the element itself (like querySelectorAll).
+export const findAll = (element: XmlElement, matcher: ElementMatcher): XmlElement[] => {
+  const predicate = toPredicate(matcher);
+  const found: XmlElement[] = [];
+  const pending = [...element.children].reverse();
+  while (pending.length > 0) {
+    const next = pending.pop()!;
+    if (predicate(next)) found.push(next);
+    for (let index = next.children.length - 1; index >= 0; index -= 1) {
+      pending.push(next.children[index]);
+    }
+  }
+  return found;
+};
+
+export const findFirst = (element: XmlElement | null | undefined, matcher: ElementMatcher): XmlElement | null => {
+  if (!element) return null;
+  const predicate = toPredicate(matcher);
+  const pending = [...element.children].reverse();
+  while (pending.length > 0) {
+    const next = pending.pop()!;
+    if (predicate(next)) return next;
+    for (let index = next.children.length - 1; index >= 0; index -= 1) {
+      pending.push(next.children[index]);
+    }
+  }
+  return null;
+};
+
+export const childrenNamed = (element: XmlElement, name: string) =>
+  element.children.filter(child => child.name === name);
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { ExtractedRecord } from '../types';
+import { RecordEdit, applyEdit, createManualRecord, invertEdit, updateRecordField, validateField } from './recordEdits';
+
+const record = (id: string, email: string): ExtractedRecord => ({
+  id,
+  title: 'An article',
+  author: 'Jane Smith',
+  email,
+  source: 'PubMed',
+  confidence: 90,
+  matchReason: 'surname in local part'
+});
+
+const data = [record('a', 'a@uni.edu'), record('b', 'b@uni.edu'), record('c', 'c@uni.edu')];
+
+const undoAndRedo = (before: ExtractedRecord[], edit: RecordEdit) => {
+  const after = applyEdit(before, edit);
+  expect(applyEdit(after, invertEdit(edit))).toEqual(before);
+  expect(applyEdit(applyEdit(after, invertEdit(edit)), edit)).toEqual(after);
+  return after;
+};
+
+describe('record edits', () => {
+  it('updates a field and marks the row edited', () => {
+    const after = undoAndRedo(data, updateRecordField(data[1], 'email', ' new@uni.edu '));
+    expect(after[1]).toMatchObject({ email: 'new@uni.edu', editStatus: 'edited' });
+  });
+
+  it('keeps a manual row marked as added when it is edited', () => {
+    const added = createManualRecord({ author: 'Wei Chen', email: 'wchen@uni.edu', title: 'Notes' });
+    expect(updateRecordField(added, 'title', 'Field notes')).toMatchObject({ after: { editStatus: 'added' } });
+  });
+
+  it('puts a deleted row back where it was', () => {
+    const after = undoAndRedo(data, { type: 'delete', record: data[1], index: 1 });
+    expect(after.map(row => row.id)).toEqual(['a', 'c']);
+  });
+
+  it('validates emails and empty values', () => {
+    expect(validateField('email', 'not an email')).toBe('Enter a valid email address.');
+    expect(validateField('author', '  ')).toBe('Author cannot be empty.');
+    expect(validateField('title', 'Fine')).toBeNull();
+  });
+});
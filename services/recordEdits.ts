@@ -0,0 +1,83 @@
+import { ExtractedRecord } from '../types';
+
+export type EditableField = 'author' | 'email' | 'title';
+
+// Edits are stored as patches keyed by record id rather than as table snapshots, so undoing
+// one does not roll back review decisions or other changes made in between.
+export type RecordEdit =
+  | { type: 'update'; before: ExtractedRecord; after: ExtractedRecord }
+  | { type: 'delete'; record: ExtractedRecord; index: number }
+  | { type: 'add'; record: ExtractedRecord; index: number }
+  // Several edits that undo and redo as one, e.g. a change to every row behind a merged record.
+  | { type: 'batch'; edits: RecordEdit[] };
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[a-zA-Z]{2,}$/;
+
+// Returns an error message for an invalid value, or null when it can be saved.
+export const validateField = (field: EditableField, value: string) => {
+  const trimmed = value.trim();
+  if (!trimmed) return `${field === 'email' ? 'Email' : field === 'author' ? 'Author' : 'Title'} cannot be empty.`;
+  if (field === 'email' && !EMAIL_PATTERN.test(trimmed)) return 'Enter a valid email address.';
+  return null;
+};
+
+export const updateRecordField = (record: ExtractedRecord, field: EditableField, value: string): RecordEdit => ({
+  type: 'update',
+  before: record,
+  // A manually added row stays "added" however often it is edited afterwards.
+  after: { ...record, [field]: value.trim(), editStatus: record.editStatus ?? 'edited' }
+});
+
+const batchEdits = (edits: RecordEdit[]): RecordEdit => (edits.length === 1 ? edits[0] : { type: 'batch', edits });
+
+export const updateRecordsField = (records: ExtractedRecord[], field: EditableField, value: string) =>
+  batchEdits(records.map(record => updateRecordField(record, field, value)));
+
+// Each index is taken after the deletes before it, so undoing them in reverse puts every row back in place.
+export const deleteRecords = (data: ExtractedRecord[], records: ExtractedRecord[]) => {
+  let remaining = data;
+  return batchEdits(records.map((record): RecordEdit => {
+    const edit: RecordEdit = { type: 'delete', record, index: remaining.indexOf(record) };
+    remaining = applyEdit(remaining, edit);
+    return edit;
+  }));
+};
+
+export const createManualRecord = (fields: Record<EditableField, string>): ExtractedRecord => ({
+  id: crypto.randomUUID(),
+  title: fields.title.trim(),
+  author: fields.author.trim(),
+  email: fields.email.trim(),
+  source: 'Manual',
+  confidence: 100,
+  matchReason: 'added manually',
+  editStatus: 'added'
+});
+
+export const applyEdit = (data: ExtractedRecord[], edit: RecordEdit): ExtractedRecord[] => {
+  switch (edit.type) {
+    case 'update':
+      return data.map(record => (record.id === edit.after.id ? edit.after : record));
+    case 'delete':
+      return data.filter(record => record.id !== edit.record.id);
+    case 'add': {
+      const index = Math.min(edit.index, data.length);
+      return [...data.slice(0, index), edit.record, ...data.slice(index)];
+    }
+    case 'batch':
+      return edit.edits.reduce(applyEdit, data);
+  }
+};
+
+export const invertEdit = (edit: RecordEdit): RecordEdit => {
+  switch (edit.type) {
+    case 'update':
+      return { type: 'update', before: edit.after, after: edit.before };
+    case 'delete':
+      return { type: 'add', record: edit.record, index: edit.index };
+    case 'add':
+      return { type: 'delete', record: edit.record, index: edit.index };
+    case 'batch':
+      return { type: 'batch', edits: edit.edits.map(invertEdit).reverse() };
+  }
+};
@@ -0,0 +1,76 @@
+import { ExtractedRecord } from '../types';
+
+export type ReviewDecision =
+  | { action: 'confirm' }
+  | { action: 'reassign'; author: string }
+  | { action: 'drop' };
+
+type StoredDecisions = Record<string, ReviewDecision>;
+
+const STORAGE_KEY = 'bioparser.reviewDecisions';
+
+// Decisions are keyed by article and email so they carry over to later uploads of the same
+// article. PMID is the stable key; DOI and then the title stand in when an export lacks it.
+export const getReviewKey = (record: ExtractedRecord) => {
+  const article = record.pmid
+    ? `pmid:${record.pmid}`
+    : record.doi
+      ? `doi:${record.doi.toLowerCase()}`
+      : `title:${record.title.toLowerCase()}`;
+  return `${article}|${record.email.toLowerCase()}`;
+};
+
+// localStorage can be missing or full (private windows, quotas); decisions then only last
+// for the current session.
+const loadDecisions = (): StoredDecisions => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as StoredDecisions;
+  } catch {
+    return {};
+  }
+};
+
+export const saveReviewDecision = (record: ExtractedRecord, decision: ReviewDecision) => {
+  try {
+    const decisions = loadDecisions();
+    decisions[getReviewKey(record)] = decision;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(decisions));
+  } catch (error) {
+    console.error('Failed to store review decision', error);
+  }
+};
+
+export const clearReviewDecisions = () => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.error('Failed to clear review decisions', error);
+  }
+};
+
+// Returns the record as the decision leaves it, or null when the email is dropped.
+export const applyReviewDecision = (record: ExtractedRecord, decision: ReviewDecision): ExtractedRecord | null => {
+  if (decision.action === 'drop') return null;
+  const { review: _review, ...rest } = record;
+  if (decision.action === 'reassign') {
+    return { ...rest, author: decision.author, confidence: 100, matchReason: 'reassigned by reviewer' };
+  }
+  return { ...rest, confidence: 100, matchReason: 'confirmed by reviewer' };
+};
+
+// Replays stored decisions on freshly parsed records. A remembered reassignment is only used
+// when that author is still listed on the article; otherwise the record stays in review.
+export const applyStoredDecisions = (records: ExtractedRecord[]) => {
+  const decisions = loadDecisions();
+  const result: ExtractedRecord[] = [];
+  for (const record of records) {
+    const decision = record.review ? decisions[getReviewKey(record)] : undefined;
+    if (!decision || (decision.action === 'reassign' && !record.review!.authors.includes(decision.author))) {
+      result.push(record);
+      continue;
+    }
+    const decided = applyReviewDecision(record, decision);
+    if (decided) result.push(decided);
+  }
+  return result;
+};
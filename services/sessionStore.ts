@@ -0,0 +1,196 @@
+import { DataSourceType, ExtractedRecord } from '../types';
+import { clearReviewDecisions } from './reviewDecisions';
+import type { FileReport } from './parseReport';
+
+export interface SessionFile {
+  name: string;
+  size: number;
+  detectedSource: DataSourceType | null;
+  assignedSource?: DataSourceType | null; // Chosen for this file before parsing; null when detected
+}
+
+// What the history panel lists. Records are kept in a separate store so listing sessions
+// does not load every extraction into memory.
+export interface SessionSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  files: SessionFile[];
+  source: DataSourceType | null; // The source every file was parsed with; null for detected or mixed batches
+  recordCount: number;
+  report?: FileReport[];
+}
+
+export interface ExtractionSession extends SessionSummary {
+  records: ExtractedRecord[];
+}
+
+interface StoredRecords {
+  sessionId: string;
+  records: ExtractedRecord[];
+}
+
+const DB_NAME = 'bioparser';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+const RECORD_STORE = 'sessionRecords';
+
+let openDatabase: Promise<IDBDatabase> | null = null;
+
+const getDatabase = () => {
+  openDatabase ??= new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('Local session storage is not available in this browser.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(RECORD_STORE)) db.createObjectStore(RECORD_STORE, { keyPath: 'sessionId' });
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab deleting the database must not be blocked by this connection.
+      db.onversionchange = () => {
+        db.close();
+        openDatabase = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(new Error('Failed to open local session storage.', { cause: request.error }));
+  });
+  // A failed open is retried on the next call instead of being cached.
+  openDatabase.catch(() => {
+    openDatabase = null;
+  });
+  return openDatabase;
+};
+
+// Runs work inside one transaction and resolves with its result once the transaction commits.
+const withStores = async <T>(
+  mode: IDBTransactionMode,
+  work: (sessions: IDBObjectStore, records: IDBObjectStore) => IDBRequest<T> | void
+) => {
+  const db = await getDatabase();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const transaction = db.transaction([SESSION_STORE, RECORD_STORE], mode);
+    const request = work(transaction.objectStore(SESSION_STORE), transaction.objectStore(RECORD_STORE));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(new Error('Local session storage failed.', { cause: transaction.error }));
+    transaction.onabort = () => reject(new Error('Local session storage failed.', { cause: transaction.error }));
+  });
+};
+
+const toSummary = ({ records, ...summary }: ExtractionSession): SessionSummary => ({
+  ...summary,
+  recordCount: records.length
+});
+
+export const createSession = (
+  name: string,
+  files: SessionFile[],
+  source: DataSourceType | null,
+  records: ExtractedRecord[],
+  report?: FileReport[]
+): ExtractionSession => {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    files,
+    source,
+    recordCount: records.length,
+    records,
+    ...(report ? { report } : {})
+  };
+};
+
+// Default name for a new upload, e.g. "pubmed-2024.txt" or "pubmed-2024.txt + 2 more".
+export const nameForFiles = (files: { name: string }[]) =>
+  files.length === 1 ? files[0].name : `${files[0].name} + ${files.length - 1} more`;
+
+// Newest first.
+export const listSessions = async () => {
+  const sessions = (await withStores<SessionSummary[]>('readonly', sessions => sessions.getAll())) ?? [];
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadSession = async (id: string): Promise<ExtractionSession | null> => {
+  let summaryRequest: IDBRequest<SessionSummary | undefined>;
+  const stored = await withStores<StoredRecords | undefined>('readonly', (sessions, records) => {
+    summaryRequest = sessions.get(id);
+    return records.get(id);
+  });
+  const summary = summaryRequest!.result;
+  if (!summary) return null;
+  return { ...summary, records: stored?.records ?? [] };
+};
+
+export const saveSession = async (session: ExtractionSession) => {
+  const saved = { ...session, recordCount: session.records.length };
+  await withStores('readwrite', (sessions, records) => {
+    sessions.put(toSummary(saved));
+    records.put({ sessionId: session.id, records: session.records } satisfies StoredRecords);
+  });
+  return saved;
+};
+
+export const renameSession = async (id: string, name: string) => {
+  await withStores('readwrite', sessions => {
+    const request = sessions.get(id);
+    request.onsuccess = () => {
+      const summary = request.result as SessionSummary | undefined;
+      if (summary) sessions.put({ ...summary, name, updatedAt: Date.now() });
+    };
+  });
+};
+
+export const deleteSession = async (id: string) => {
+  await withStores('readwrite', (sessions, records) => {
+    sessions.delete(id);
+    records.delete(id);
+  });
+};
+
+// Combines sessions into a new one; the originals are kept. Records keep their ids, so
+// merging a session with itself or overlapping merges does not duplicate rows.
+export const mergeSessions = async (ids: string[], name: string) => {
+  const loaded = await Promise.all(ids.map(loadSession));
+  const sessions = loaded.filter((session): session is ExtractionSession => session !== null);
+  if (sessions.length === 0) throw new Error('None of the selected sessions could be found.');
+
+  const records = new Map<string, ExtractedRecord>();
+  for (const session of sessions) {
+    for (const record of session.records) {
+      if (!records.has(record.id)) records.set(record.id, record);
+    }
+  }
+  const sources = new Set(sessions.map(session => session.source));
+  const merged = createSession(
+    name,
+    sessions.flatMap(session => session.files),
+    sources.size === 1 ? sessions[0].source : null,
+    Array.from(records.values()),
+    sessions.flatMap(session => session.report ?? [])
+  );
+  return saveSession(merged);
+};
+
+// Removes every session and remembered review decision from this browser.
+export const clearAllLocalData = async () => {
+  clearReviewDecisions();
+  if (typeof indexedDB === 'undefined') return;
+  const db = openDatabase ? await openDatabase.catch(() => null) : null;
+  db?.close();
+  openDatabase = null;
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(DB_NAME);
+    request.onsuccess = () => resolve();
+    // Other open tabs close their connections on versionchange, so a blocked delete still completes.
+    request.onerror = () => reject(new Error('Failed to clear local session storage.', { cause: request.error }));
+  });
+};
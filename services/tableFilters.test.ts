@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { ExtractedRecord } from '../types';
+import { EMPTY_FILTERS, applyFilters } from './tableFilters';
+
+const record = (id: string, fields: Partial<ExtractedRecord> = {}): ExtractedRecord => ({
+  id,
+  title: 'Gut microbiome shifts after antibiotic treatment',
+  author: 'Jane Smith',
+  email: 'jane.smith@uni.edu',
+  source: 'PubMed',
+  confidence: 90,
+  matchReason: 'surname in local part',
+  ...fields
+});
+
+const data = [
+  record('a'),
+  record('b', { title: 'Soil bacteria in arid regions', author: 'Wei Chen', email: 'wchen@hvu.edu', journal: 'Soil Biology' }),
+  record('c', { title: 'Caf\u00e9 culture', author: 'Ana Nu\u00f1ez', email: 'ana@uni.es', year: '2020' })
+];
+
+const search = (text: string) => applyFilters(data, { ...EMPTY_FILTERS, search: text }).map(row => row.id);
+
+describe('applyFilters search', () => {
+  it('matches part of a word in any field, ignoring case', () => {
+    expect(search('MICRO')).toEqual(['a']);
+    expect(search('biolog')).toEqual(['b']);
+    expect(search('nu\u00f1')).toEqual(['c']);
+  });
+
+  it('matches across the punctuation inside a field', () => {
+    expect(search('n@hvu.e')).toEqual(['b']);
+    expect(search('smith@uni')).toEqual(['a']);
+    expect(search('@')).toEqual(['a', 'b', 'c']);
+  });
+
+  it('does not match across the end of one field and the next', () => {
+    expect(search('treatment jane')).toEqual([]);
+    expect(search('uni.edu surname')).toEqual([]);
+  });
+
+  it('combines the search with the other filters', () => {
+    expect(applyFilters(data, { ...EMPTY_FILTERS, search: 'uni', yearFrom: '2019' }).map(row => row.id)).toEqual(['c']);
+  });
+
+  it('follows a new array after an edit', () => {
+    const edited = data.map(row => (row.id === 'a' ? { ...row, author: 'Janet Smithers' } : row));
+    expect(applyFilters(edited, { ...EMPTY_FILTERS, search: 'smithers' }).map(row => row.id)).toEqual(['a']);
+    expect(search('smithers')).toEqual([]);
+  });
+});
@@ -0,0 +1,222 @@
+import { ExtractedRecord } from '../types';
+import { ConfidenceLevel, getConfidenceLevel } from './parsers/matchConfidence';
+import { METADATA_COLUMNS, MetadataField } from './exportService';
+import { recordSources } from './articleMerge';
+
+export type SortKey = 'author' | 'email' | 'confidence' | 'title' | MetadataField;
+
+export interface TableSort {
+  key: SortKey;
+  direction: 'asc' | 'desc';
+}
+
+// Every filter is optional; empty strings and empty lists mean "not filtering on this".
+export interface TableFilters {
+  search: string;
+  emailDomain: string;
+  domainMatch: 'equals' | 'endsWith';
+  sources: string[];
+  orcid: 'any' | 'has' | 'lacks';
+  yearFrom: string;
+  yearTo: string;
+  confidenceLevel: 'all' | ConfidenceLevel;
+  confidenceBelow: string;
+}
+
+export const EMPTY_FILTERS: TableFilters = {
+  search: '',
+  emailDomain: '',
+  domainMatch: 'equals',
+  sources: [],
+  orcid: 'any',
+  yearFrom: '',
+  yearTo: '',
+  confidenceLevel: 'all',
+  confidenceBelow: ''
+};
+
+const SORT_KEYS: SortKey[] = [
+  'author', 'email', 'confidence', 'title', 'pmid', 'pmcid', 'doi', 'journal', 'year', 'affiliation', 'orcid', 'sourceFile'
+];
+const CONFIDENCE_LEVELS: ConfidenceLevel[] = ['high', 'medium', 'low'];
+
+// Short query parameter names keep shared links readable, e.g.
+// ?domain=edu&match=ends&source=PubMed,Scopus&orcid=has&from=2019&below=50&sort=year&dir=desc
+export const filtersFromSearchParams = (params: URLSearchParams): TableFilters => {
+  const level = params.get('confidence') as ConfidenceLevel;
+  const orcid = params.get('orcid');
+  return {
+    search: params.get('q') ?? '',
+    emailDomain: params.get('domain') ?? '',
+    domainMatch: params.get('match') === 'ends' ? 'endsWith' : 'equals',
+    sources: (params.get('source') ?? '').split(',').filter(Boolean),
+    orcid: orcid === 'has' || orcid === 'lacks' ? orcid : 'any',
+    yearFrom: params.get('from') ?? '',
+    yearTo: params.get('to') ?? '',
+    confidenceLevel: CONFIDENCE_LEVELS.includes(level) ? level : 'all',
+    confidenceBelow: params.get('below') ?? ''
+  };
+};
+
+export const sortFromSearchParams = (params: URLSearchParams): TableSort | null => {
+  const key = params.get('sort') as SortKey;
+  if (!SORT_KEYS.includes(key)) return null;
+  return { key, direction: params.get('dir') === 'desc' ? 'desc' : 'asc' };
+};
+
+// Writes filters and sort into the given params, removing any that are at their defaults.
+export const writeSearchParams = (params: URLSearchParams, filters: TableFilters, sort: TableSort | null) => {
+  const entries: Record<string, string> = {
+    q: filters.search,
+    domain: filters.emailDomain,
+    match: filters.emailDomain && filters.domainMatch === 'endsWith' ? 'ends' : '',
+    source: filters.sources.join(','),
+    orcid: filters.orcid === 'any' ? '' : filters.orcid,
+    from: filters.yearFrom,
+    to: filters.yearTo,
+    confidence: filters.confidenceLevel === 'all' ? '' : filters.confidenceLevel,
+    below: filters.confidenceBelow,
+    sort: sort?.key ?? '',
+    dir: sort?.direction === 'desc' ? 'desc' : ''
+  };
+  for (const [name, value] of Object.entries(entries)) {
+    if (value) params.set(name, value);
+    else params.delete(name);
+  }
+  return params;
+};
+
+// Number of structured filters in use, not counting the search box.
+export const countActiveFilters = (filters: TableFilters) =>
+  [
+    filters.emailDomain,
+    filters.sources.length > 0,
+    filters.orcid !== 'any',
+    filters.yearFrom || filters.yearTo,
+    filters.confidenceLevel !== 'all',
+    filters.confidenceBelow
+  ].filter(Boolean).length;
+
+// Lower-cased search text per record, built once. Records are never mutated (edits replace
+// them), so entries cannot go stale and are dropped together with their records.
+const searchTexts = new WeakMap<ExtractedRecord, string>();
+
+const searchTextFor = (record: ExtractedRecord) => {
+  let text = searchTexts.get(record);
+  if (text === undefined) {
+    // The separator keeps a search from matching across the end of one field and the next.
+    const fields = [record.title, record.author, record.email, record.matchReason];
+    text = [...fields, ...METADATA_COLUMNS.map(column => record[column.key] ?? '')]
+      .join('\u0000')
+      .toLowerCase();
+    searchTexts.set(record, text);
+  }
+  return text;
+};
+
+const WORD_REGEX = /[\p{L}\p{N}]+/gu;
+
+// Row texts of one data array, and the rows each distinct word appears in.
+interface SearchIndex {
+  texts: string[];
+  rowsByWord: Map<string, number[]>;
+}
+
+// Built once per data array; the arrays are replaced, never mutated, when rows change.
+const searchIndexes = new WeakMap<ExtractedRecord[], SearchIndex>();
+
+const getSearchIndex = (data: ExtractedRecord[]) => {
+  let index = searchIndexes.get(data);
+  if (!index) {
+    const texts = data.map(searchTextFor);
+    const rowsByWord = new Map<string, number[]>();
+    texts.forEach((text, row) => {
+      for (const word of new Set(text.match(WORD_REGEX))) {
+        const rows = rowsByWord.get(word);
+        if (rows) rows.push(row);
+        else rowsByWord.set(word, [row]);
+      }
+    });
+    index = { texts, rowsByWord };
+    searchIndexes.set(data, index);
+  }
+  return index;
+};
+
+// Positions of the rows whose text contains the search. Every run of letters and digits in the
+// search falls inside a single word of a matching row, so only rows holding a word that contains
+// the longest run are checked; the vocabulary is far smaller than the text of every row.
+const findSearchMatches = (data: ExtractedRecord[], search: string) => {
+  const { texts, rowsByWord } = getSearchIndex(data);
+  const runs: string[] = search.match(WORD_REGEX) ?? [];
+  const longestRun = runs.reduce((longest, run) => (run.length > longest.length ? run : longest), '');
+
+  let candidates: Iterable<number> = texts.keys();
+  if (longestRun) {
+    const rows = new Set<number>();
+    for (const [word, wordRows] of rowsByWord) {
+      if (word.includes(longestRun)) wordRows.forEach(row => rows.add(row));
+    }
+    candidates = rows;
+  }
+
+  const matches = new Set<number>();
+  for (const row of candidates) {
+    if (texts[row].includes(search)) matches.add(row);
+  }
+  return matches;
+};
+
+const parseNumber = (value: string) => {
+  const number = Number(value.trim());
+  return value.trim() && Number.isFinite(number) ? number : null;
+};
+
+export const applyFilters = (data: ExtractedRecord[], filters: TableFilters) => {
+  const search = filters.search.trim().toLowerCase();
+  const domain = filters.emailDomain.trim().toLowerCase().replace(/^@/, '');
+  const yearFrom = parseNumber(filters.yearFrom);
+  const yearTo = parseNumber(filters.yearTo);
+  const confidenceBelow = parseNumber(filters.confidenceBelow);
+  const searchMatches = search ? findSearchMatches(data, search) : null;
+
+  return data.filter((item, row) => {
+    if (searchMatches && !searchMatches.has(row)) return false;
+    if (domain) {
+      const emailDomain = item.email.toLowerCase().split('@')[1] ?? '';
+      // "ends with" matches whole labels, so "edu" finds harvard.edu but not someedu.com.
+      const matches = filters.domainMatch === 'equals'
+        ? emailDomain === domain
+        : emailDomain === domain || emailDomain.endsWith(`.${domain.replace(/^\./, '')}`);
+      if (!matches) return false;
+    }
+    if (filters.sources.length > 0 && !recordSources(item).some(source => filters.sources.includes(source))) return false;
+    if (filters.orcid === 'has' && !item.orcid) return false;
+    if (filters.orcid === 'lacks' && item.orcid) return false;
+    if (yearFrom !== null || yearTo !== null) {
+      const year = item.year ? Number(item.year) : null;
+      if (year === null) return false;
+      if (yearFrom !== null && year < yearFrom) return false;
+      if (yearTo !== null && year > yearTo) return false;
+    }
+    if (filters.confidenceLevel !== 'all' && getConfidenceLevel(item.confidence) !== filters.confidenceLevel) return false;
+    if (confidenceBelow !== null && item.confidence >= confidenceBelow) return false;
+    return true;
+  });
+};
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+// Stable sort; rows without a value for the key always go last.
+export const sortRecords = (data: ExtractedRecord[], sort: TableSort | null) => {
+  if (!sort) return data;
+  const factor = sort.direction === 'asc' ? 1 : -1;
+  return [...data].sort((a, b) => {
+    const left = a[sort.key];
+    const right = b[sort.key];
+    if (left === undefined || left === '') return right === undefined || right === '' ? 0 : 1;
+    if (right === undefined || right === '') return -1;
+    if (typeof left === 'number' && typeof right === 'number') return (left - right) * factor;
+    return collator.compare(String(left), String(right)) * factor;
+  });
+};
@@ -4,24 +4,91 @@ export interface ExtractedRecord {
   author: string;
   email: string;
   source: string;
+  sourceFile?: string; // Name of the uploaded file the row was extracted from
+  // Article identifiers and bibliographic details, filled in when the export carries them
+  pmid?: string;
+  pmcid?: string; // Always "PMC" followed by digits
+  doi?: string; // Bare DOI without a resolver prefix, e.g. 10.1000/xyz123
+  journal?: string;
+  year?: string;
+  affiliation?: string; // Raw affiliation text of the matched author
+  orcid?: string; // ORCID iD of the matched author, e.g. 0000-0002-1825-0097
+  // How sure the parser is that the email belongs to the author (0-100), and why
+  confidence: number;
+  matchReason: string;
+  review?: ReviewContext; // Present while a low-confidence match waits for a reviewer's decision
+  editStatus?: 'edited' | 'added'; // Set once a row is changed or created by hand in the table
+  provenance?: RecordProvenance[]; // Set on a record merged from several rows, one entry per row
 }
 
+// Where one row of a merged record came from; `id` is that row's own id.
+export type RecordProvenance = Pick<ExtractedRecord, 'id' | 'source' | 'sourceFile'>;
+
+// What a reviewer needs to check an assignment: the article's authors, every email found
+// for it, and the text (usually an affiliation) the email was taken from.
+export interface ReviewContext {
+  authors: string[];
+  emails: string[];
+  emailSource?: string;
+}
+
+// The per-article part of a record, shared by every author row extracted from that article.
+export type ArticleMetadata = Pick<ExtractedRecord, 'pmid' | 'pmcid' | 'doi' | 'journal' | 'year'>;
+
+export type MatchDetails = Pick<ExtractedRecord, 'confidence' | 'matchReason'>;
+
 export enum DataSourceType {
   EUROPE_PMC = 'EUROPE_PMC',
   PUBMED = 'PUBMED',
   MDPI = 'MDPI',
+  SCOPUS = 'SCOPUS',
+  WEB_OF_SCIENCE = 'WEB_OF_SCIENCE',
+  RIS_BIBTEX = 'RIS_BIBTEX',
   // Future sources can be added here
-  BIORXIV = 'BIORXIV_FUTURE'
+  BIORXIV = 'BIORXIV'
 }
 
+// Why an article produced no records, counted per file for the parse report.
+export type SkipReason = 'noTitle' | 'noAuthors' | 'noEmail' | 'noAffiliation' | 'unmatched';
+
+export type SkipCounts = Partial<Record<SkipReason, number>>;
+
 export interface ParserResult {
   records: ExtractedRecord[];
   totalProcessed: number;
+  skipped?: SkipCounts;
   error?: string;
 }
 
+// Icon keys rather than components keep parser modules free of React imports.
+export type ParserIcon = 'database' | 'file-text' | 'file-spreadsheet' | 'globe' | 'flask' | 'book';
+
+export interface ParserUiMetadata {
+  formatLabel: string;
+  uploadLabel: string;
+  parsingLabel: string;
+  parsingDetail: string;
+  acceptTypes: string[];
+  icon: ParserIcon;
+}
+
 export interface ParserStrategy {
+  id: DataSourceType;
   name: string;
   description: string;
-  parse: (xmlContent: string) => Promise<ParserResult>;
+  ui: ParserUiMetadata;
+  parse: (content: string) => Promise<ParserResult>;
+  // Incremental variant for line-oriented formats; records are reported as each one completes.
+  parseLines?: (
+    lineBatches: AsyncIterable<string[]>,
+    onRecords: (records: ExtractedRecord[]) => void
+  ) => Promise<Omit<ParserResult, 'records'>>;
+}
+
+export interface FileParseProgress {
+  fileName: string;
+  status: 'pending' | 'reading' | 'parsing' | 'done' | 'failed';
+  bytesRead: number;
+  totalBytes: number;
+  recordsFound: number;
 }
@@ -2,7 +2,7 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
@@ -18,6 +18,21 @@ export default defineConfig(({ mode }) => {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
-      }
+      },
+      // `vite build --ssr` bundles the Node entry points (CLI and extraction API) instead of the app.
+      build: isSsrBuild ? {
+        outDir: 'dist-node',
+        rollupOptions: {
+          input: {
+            bioparser: 'cli/bioparser.ts',
+            extractionApi: 'server/extractionApi.ts',
+            extractionWorker: 'server/extractionWorker.ts',
+          },
+          output: {
+            entryFileNames: '[name].js',
+            chunkFileNames: 'chunks/[name]-[hash].js',
+          }
+        }
+      } : undefined
     };
 });